@@ -0,0 +1,182 @@
+// Runs the built CLI (`npm run build:cli`) against a local HTTP server and checks
+// exit codes, variable chaining and what the reports say was sent.
+// Usage: npm run test:cli
+import { spawn } from 'node:child_process';
+import { createServer } from 'node:http';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer as createViteServer } from 'vite';
+
+const ROOT = fileURLToPath(new URL('..', import.meta.url));
+const CLI = fileURLToPath(new URL('../dist-cli/api-forge.js', import.meta.url));
+
+// Every request the server saw, by path
+const received = new Map();
+let server;
+let baseUrl;
+let dir;
+let vite;
+
+before(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      received.set(req.url, { method: req.method, headers: req.headers, body });
+      res.setHeader('Content-Type', 'application/json');
+      if (req.url === '/login') {
+        res.end(JSON.stringify({ token: 'abc123' }));
+      } else if (req.url === '/missing') {
+        res.statusCode = 404;
+        res.end(JSON.stringify({ error: 'not found' }));
+      } else {
+        res.end(JSON.stringify({ path: req.url, authorization: req.headers.authorization || null }));
+      }
+    });
+  });
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+  dir = await mkdtemp(join(tmpdir(), 'api-forge-cli-'));
+});
+
+after(async () => {
+  server.close();
+  await vite?.close();
+  await rm(dir, { recursive: true, force: true });
+});
+
+const script = (listen, ...exec) => ({ listen, script: { type: 'text/javascript', exec } });
+
+const request = (name, path, events = [], header = []) => ({
+  name,
+  request: { method: 'GET', header, url: `{{baseUrl}}${path}` },
+  event: events,
+  response: [],
+});
+
+const collection = (name, item) => ({
+  info: { name, schema: 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json' },
+  item,
+});
+
+async function writeJson(name, json) {
+  const file = join(dir, name);
+  await writeFile(file, JSON.stringify(json));
+  return file;
+}
+
+// Loads an app module from source, for tests that start from an import instead of a collection file
+async function loadSource(path) {
+  vite ??= await createViteServer({
+    root: ROOT,
+    configFile: join(ROOT, 'vite.cli.config.ts'),
+    appType: 'custom',
+    server: { middlewareMode: true, hmr: false },
+    logLevel: 'error',
+  });
+  return vite.ssrLoadModule(path);
+}
+
+function runCli(args) {
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, [CLI, ...args], { env: { ...process.env, NO_COLOR: '1' } });
+    let output = '';
+    child.stdout.on('data', chunk => { output += chunk; });
+    child.stderr.on('data', chunk => { output += chunk; });
+    // A hung run fails the test instead of the whole job
+    const timer = setTimeout(() => {
+      child.kill();
+      reject(new Error(`CLI did not exit within 20s:\n${output}`));
+    }, 20000);
+    child.on('exit', code => {
+      clearTimeout(timer);
+      resolve({ code, output });
+    });
+  });
+}
+
+test('chains variables between requests and exits 0 when everything passes', async () => {
+  const file = await writeJson('chained.json', collection('Chained', [
+    request('Login', '/login', [
+      script('test', 'pm.environment.set("token", pm.response.json().token);', 'pm.test("ok", () => pm.response.to.have.status(200));'),
+    ]),
+    request('Profile', '/profile', [
+      script('test', 'pm.test("sends the token", () => pm.expect(pm.response.json().authorization).to.equal("Bearer abc123"));'),
+    ], [{ key: 'Authorization', value: 'Bearer {{token}}' }, { key: 'X-Request-Id', value: '{{$guid}}' }]),
+  ]));
+  const report = join(dir, 'chained-report.json');
+
+  const { code, output } = await runCli(['run', file, '--env-var', `baseUrl=${baseUrl}`, '--json', report]);
+  assert.equal(code, 0, output);
+
+  const { results, summary } = JSON.parse(await readFile(report, 'utf8'));
+  assert.equal(summary.failedTests, 0);
+  // Dynamic variables are resolved once: the report shows the value the server received
+  const sentId = results[1].request.header.find(h => h.key === 'X-Request-Id').value;
+  assert.equal(sentId, received.get('/profile').headers['x-request-id']);
+});
+
+test('exits 1 when a test fails', async () => {
+  const file = await writeJson('failing.json', collection('Failing', [
+    request('Missing', '/missing', [script('test', 'pm.test("found", () => pm.response.to.have.status(200));')]),
+  ]));
+
+  const { code, output } = await runCli(['run', file, '--env-var', `baseUrl=${baseUrl}`]);
+  assert.equal(code, 1, output);
+  assert.match(output, /Tests: +1, 1 failed/);
+});
+
+test('stops a script stuck in a loop at the script timeout', async () => {
+  const file = await writeJson('looping.json', collection('Looping', [
+    request('Loop', '/loop', [script('prerequest', 'while (true) {}')]),
+    request('After', '/after'),
+  ]));
+
+  const { code, output } = await runCli(['run', file, '--env-var', `baseUrl=${baseUrl}`, '--script-timeout', '500']);
+  assert.equal(code, 1, output);
+  assert.match(output, /Script timed out after 500ms/);
+  assert.ok(received.has('/after'), 'the run continues with the next request');
+});
+
+test('does not send secrets that are still encrypted', async () => {
+  const file = await writeJson('locked.json', {
+    ...collection('Locked', [request('Secret', '/secret', [], [{ key: 'Authorization', value: 'Bearer {{token}}' }])]),
+    variable: [{ key: 'token', value: 'enc:v1:c2FsdA==:aXY=:ZGF0YQ==', type: 'secret' }],
+  });
+
+  const { code, output } = await runCli(['run', file, '--env-var', `baseUrl=${baseUrl}`]);
+  assert.equal(code, 1, output);
+  assert.match(output, /still encrypted/);
+  assert.ok(!received.has('/secret'), 'the request is not sent');
+});
+
+test('sends OpenAPI path params that fill only part of a segment', async () => {
+  const { convertOpenApiToCollection } = await loadSource('/src/utils/openApiImport.ts');
+  const param = (name, example) => ({ name, in: 'path', required: true, schema: { type: 'string', example } });
+  const file = await writeJson('openapi.json', convertOpenApiToCollection({
+    openapi: '3.0.0',
+    info: { title: 'Files' },
+    servers: [{ url: baseUrl }],
+    paths: {
+      '/files/{name}.json': { get: { summary: 'File', parameters: [param('name', 'report')] } },
+      '/range/{from}-{to}/{id}': { get: { summary: 'Range', parameters: [param('from', '1'), param('to', '5'), param('id', '7')] } },
+    },
+  }));
+
+  const { code, output } = await runCli(['run', file]);
+  assert.equal(code, 0, output);
+  assert.ok(received.has('/files/report.json'), output);
+  assert.ok(received.has('/range/1-5/7'), output);
+});
+
+test('exits 2 when the collection is invalid', async () => {
+  const file = await writeJson('invalid.json', { info: { name: 'Invalid' }, item: [{ name: 'No request' }] });
+
+  const { code, output } = await runCli(['run', file]);
+  assert.equal(code, 2, output);
+  assert.match(output, /is not a valid Postman collection/);
+});
@@ -0,0 +1,69 @@
+import { RunnerResult, isFailedResult } from '@/utils/collectionRunner';
+import { ScriptLog } from '@/types/postman';
+
+// Colours are left out when the output is piped or NO_COLOR is set
+const useColor = !!process.stdout.isTTY && !process.env.NO_COLOR;
+
+const paint = (code: number) => (text: string) => (useColor ? `\x1b[${code}m${text}\x1b[0m` : text);
+const green = paint(32);
+const red = paint(31);
+const yellow = paint(33);
+const cyan = paint(36);
+const dim = paint(2);
+const bold = paint(1);
+
+const LOG_COLORS: Record<ScriptLog['level'], (text: string) => string> = {
+  log: dim,
+  info: cyan,
+  warn: yellow,
+  error: red,
+};
+
+const write = (line = '') => process.stdout.write(`${line}\n`);
+
+export function printRunHeader(name: string, environment?: string) {
+  write(bold(name));
+  if (environment) write(dim(`Environment: ${environment}`));
+  write();
+}
+
+export function printResult(result: RunnerResult, iterationCount: number) {
+  const label = result.path.join(' / ');
+  const prefix = iterationCount > 1 ? dim(`[${result.iteration + 1}/${iterationCount}] `) : '';
+  const status = result.response && result.response.status !== 0
+    ? `${result.response.status} ${result.response.statusText}, ${result.response.responseTime}ms`
+    : 'not sent';
+
+  write(`${prefix}${isFailedResult(result) ? red('✗') : green('✓')} ${bold(label)}`);
+  write(dim(`    ${result.method} ${result.url} [${status}]`));
+
+  result.logs.forEach(log => write(`    ${LOG_COLORS[log.level](`${log.level}: ${log.message}`)}`));
+  result.tests.forEach(test => {
+    if (test.skipped) {
+      write(dim(`    - ${test.name} (skipped)`));
+    } else if (test.passed) {
+      write(`    ${green('✓')} ${test.name}`);
+    } else {
+      write(`    ${red('✗')} ${test.name}${test.error ? red(`: ${test.error}`) : ''}`);
+    }
+  });
+  if (result.error) write(red(`    ${result.error}`));
+  if (result.nextRequest !== undefined) {
+    write(cyan(`    → ${result.nextRequest === null ? 'End of iteration' : `Next: ${result.nextRequest}`}`));
+  }
+}
+
+export function printSummary(results: RunnerResult[], duration: number) {
+  const tests = results.flatMap(r => r.tests);
+  const failedTests = tests.filter(t => !t.passed).length;
+  const skippedTests = tests.filter(t => t.skipped).length;
+  const failedRequests = results.filter(isFailedResult).length;
+
+  write();
+  write(`Requests: ${results.length}, ${failedRequests ? red(`${failedRequests} failed`) : green('0 failed')}`);
+  write(
+    `Tests:    ${tests.length - skippedTests}, ${failedTests ? red(`${failedTests} failed`) : green('0 failed')}` +
+      (skippedTests ? dim(`, ${skippedTests} skipped`) : '')
+  );
+  write(`Duration: ${duration}ms`);
+}
@@ -0,0 +1,228 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import { parseArgs } from 'node:util';
+import { isMainThread } from 'node:worker_threads';
+import { PostmanCollection, PostmanEnvironment } from '@/types/postman';
+import { CollectionValidationError } from '@/utils/collectionSchema';
+import { DEFAULT_LOOP_LIMIT, collectRequests, isFailedResult, runCollection } from '@/utils/collectionRunner';
+import { DataRow, parseDataFile } from '@/utils/dataFileUtils';
+import { parsePostmanCollection, parsePostmanEnvironment } from '@/utils/postmanUtils';
+import { REPORT_FORMATS, ReportFormat, RunReport } from '@/utils/runnerReports';
+import { DEFAULT_SCRIPT_TIMEOUT } from '@/utils/scriptSandbox';
+import { containsEncryptedValue, isEncryptedValue, openSecretVault, unsealCollectionSecrets, unsealEnvironmentSecrets } from '@/utils/secretUtils';
+import { printResult, printRunHeader, printSummary } from '@/cli/consoleReporter';
+import { runScriptInWorker, serveScript } from '@/cli/scriptWorker';
+
+const USAGE = `Usage: api-forge run <collection> [options]
+
+Runs every request in a Postman collection, with its scripts and tests, and
+exits with a non-zero status when a request or test fails.
+
+Options:
+  -e, --environment <file>       Postman environment file
+  -g, --globals <file>           Postman globals file
+  -d, --data <file>              CSV or JSON data file, one iteration per row
+  -n, --iterations <count>       Number of iterations (default: 1)
+      --folder <path>            Run only this folder or request, e.g. "Users/Create user"
+      --env-var <key=value>      Set an environment variable, can be repeated
+      --delay <ms>               Delay between requests (default: 0)
+      --bail                     Stop after the first failed request
+      --script-timeout <ms>      Script timeout (default: ${DEFAULT_SCRIPT_TIMEOUT})
+      --loop-limit <count>       setNextRequest loop limit per request (default: ${DEFAULT_LOOP_LIMIT})
+      --secrets-passphrase <p>   Decrypt secret values, also read from API_FORGE_SECRETS_PASSPHRASE
+      --junit <file>             Write a JUnit XML report
+      --html <file>              Write an HTML report
+      --json <file>              Write a JSON report
+  -h, --help                     Show this help`;
+
+// Exit codes: 1 when the run has failures, 2 when it could not start
+class UsageError extends Error {}
+
+const readJson = async (file: string, label: string) => {
+  let text: string;
+  try {
+    text = await readFile(file, 'utf8');
+  } catch {
+    throw new UsageError(`Could not read ${label} file "${file}"`);
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new UsageError(`${label[0].toUpperCase()}${label.slice(1)} file "${file}" is not valid JSON`);
+  }
+};
+
+const parseCount = (value: string | undefined, name: string, fallback: number) => {
+  if (value === undefined) return fallback;
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new UsageError(`--${name} must be a whole number, got "${value}"`);
+  }
+  return count;
+};
+
+function setEnvironmentVariables(environment: PostmanEnvironment | null, assignments: string[]): PostmanEnvironment | null {
+  if (assignments.length === 0) return environment;
+  const values = [...(environment?.values || [])];
+  assignments.forEach(assignment => {
+    const separator = assignment.indexOf('=');
+    if (separator <= 0) {
+      throw new UsageError(`--env-var must look like key=value, got "${assignment}"`);
+    }
+    const key = assignment.slice(0, separator);
+    const variable = { key, value: assignment.slice(separator + 1), type: 'default', enabled: true };
+    const index = values.findIndex(v => v.key === key);
+    if (index === -1) values.push(variable);
+    else values[index] = { ...values[index], value: variable.value, enabled: true };
+  });
+  return { ...(environment || parsePostmanEnvironment({ name: 'CLI', values: [] })), values };
+}
+
+const hasEncryptedValues = (collection: PostmanCollection, environments: Array<PostmanEnvironment | null>) =>
+  containsEncryptedValue([collection.variable, collection.item])
+  || environments.some(env => env?.values.some(v => isEncryptedValue(v.value)));
+
+async function run(args: string[]): Promise<number> {
+  const { values: options, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      environment: { type: 'string', short: 'e' },
+      globals: { type: 'string', short: 'g' },
+      data: { type: 'string', short: 'd' },
+      iterations: { type: 'string', short: 'n' },
+      folder: { type: 'string' },
+      'env-var': { type: 'string', multiple: true },
+      delay: { type: 'string' },
+      bail: { type: 'boolean' },
+      'script-timeout': { type: 'string' },
+      'loop-limit': { type: 'string' },
+      'secrets-passphrase': { type: 'string' },
+      junit: { type: 'string' },
+      html: { type: 'string' },
+      json: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (options.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  const [command, collectionFile, ...rest] = positionals;
+  if (command !== 'run' || !collectionFile || rest.length > 0) {
+    throw new UsageError(command && command !== 'run' ? `Unknown command "${command}"` : 'Missing collection file');
+  }
+
+  let collection: PostmanCollection;
+  try {
+    collection = parsePostmanCollection(await readJson(collectionFile, 'collection'));
+  } catch (error) {
+    if (!(error instanceof CollectionValidationError)) throw error;
+    throw new UsageError(`"${collectionFile}" is not a valid Postman collection:\n  ${error.issues.join('\n  ')}`);
+  }
+  const readEnvironment = async (file: string, label: 'environment' | 'globals') => {
+    const json = await readJson(file, label);
+    try {
+      return parsePostmanEnvironment(label === 'globals' ? { ...json, _postman_variable_scope: 'globals' } : json);
+    } catch (error) {
+      if (!(error instanceof CollectionValidationError)) throw error;
+      throw new UsageError(`"${file}" is not a valid Postman ${label} file:\n  ${error.issues.join('\n  ')}`);
+    }
+  };
+  let environment = options.environment ? await readEnvironment(options.environment, 'environment') : null;
+  let globals = options.globals
+    ? await readEnvironment(options.globals, 'globals')
+    : parsePostmanEnvironment({ name: 'Globals', values: [], _postman_variable_scope: 'globals' });
+
+  const passphrase = options['secrets-passphrase'] || process.env.API_FORGE_SECRETS_PASSPHRASE;
+  if (passphrase) {
+    const vault = await openSecretVault(passphrase);
+    collection = await unsealCollectionSecrets(collection, vault);
+    if (environment) environment = await unsealEnvironmentSecrets(environment, vault);
+    globals = await unsealEnvironmentSecrets(globals, vault);
+  }
+  if (hasEncryptedValues(collection, [environment, globals])) {
+    console.warn(passphrase
+      ? 'Warning: some secret values could not be decrypted with the given passphrase'
+      : 'Warning: secret values are encrypted, pass --secrets-passphrase to use them');
+  }
+  environment = setEnvironmentVariables(environment, options['env-var'] || []);
+
+  let data: DataRow[] | undefined;
+  if (options.data) {
+    let text: string;
+    try {
+      text = await readFile(options.data, 'utf8');
+    } catch {
+      throw new UsageError(`Could not read data file "${options.data}"`);
+    }
+    try {
+      data = parseDataFile(text, basename(options.data));
+    } catch (error) {
+      throw new UsageError(`Data file "${options.data}": ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  const folderPath = options.folder ? options.folder.split('/').filter(Boolean) : [];
+  if (collectRequests(collection, folderPath).length === 0) {
+    throw new UsageError(options.folder ? `No requests found in "${options.folder}"` : 'The collection has no requests');
+  }
+
+  const iterationCount = data?.length || Math.max(1, parseCount(options.iterations, 'iterations', 1));
+  const startedAt = new Date();
+  printRunHeader(collection.info.name, environment?.name);
+
+  const { results } = await runCollection(
+    // Without -e scripts still get an environment, so pm.environment.set values carry over like in newman
+    { collection, environment: environment || parsePostmanEnvironment({ name: 'CLI', values: [] }), globals },
+    folderPath,
+    {
+      iterations: iterationCount,
+      delay: parseCount(options.delay, 'delay', 0),
+      stopOnFailure: !!options.bail,
+      scriptTimeout: parseCount(options['script-timeout'], 'script-timeout', DEFAULT_SCRIPT_TIMEOUT),
+      loopLimit: parseCount(options['loop-limit'], 'loop-limit', DEFAULT_LOOP_LIMIT),
+      data,
+    },
+    {
+      runScript: runScriptInWorker,
+      onResult: result => printResult(result, iterationCount),
+    }
+  );
+
+  const duration = Date.now() - startedAt.getTime();
+  printSummary(results, duration);
+
+  const report: RunReport = {
+    name: collection.info.name,
+    environment: environment?.name,
+    startedAt: startedAt.toISOString(),
+    duration,
+    results,
+  };
+  for (const format of Object.keys(REPORT_FORMATS) as ReportFormat[]) {
+    const file = options[format];
+    if (!file) continue;
+    await writeFile(file, REPORT_FORMATS[format].create(report));
+    console.log(`${REPORT_FORMATS[format].label} report written to ${file}`);
+  }
+
+  return results.some(isFailedResult) ? 1 : 0;
+}
+
+if (!isMainThread) {
+  serveScript();
+} else {
+  // Exit explicitly: keep-alive sockets would otherwise hold the process open
+  run(process.argv.slice(2)).then(
+    code => process.exit(code),
+    error => {
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      if (error instanceof UsageError || (error as NodeJS.ErrnoException)?.code?.startsWith('ERR_PARSE_ARGS')) {
+        console.error('Run "api-forge --help" for usage.');
+      }
+      process.exit(2);
+    }
+  );
+}
@@ -0,0 +1,54 @@
+import { Worker, parentPort } from 'node:worker_threads';
+import { ScriptLog } from '@/types/postman';
+import { ScriptRunner } from '@/utils/collectionRunner';
+import { executeRequest } from '@/utils/postmanUtils';
+import { DEFAULT_SCRIPT_TIMEOUT, ScriptExecutionInput, ScriptExecutionResult, executeScript } from '@/utils/scriptSandbox';
+
+type WorkerMessage =
+  | { type: 'log'; log: ScriptLog }
+  | { type: 'result'; result: ScriptExecutionResult };
+
+/**
+ * Runs a script in its own worker thread, like the web app does in a Web Worker.
+ * The worker is terminated when the script finishes or exceeds the timeout, so a
+ * script stuck in a synchronous loop can't hang the run. The CLI is built as a
+ * single file, so the worker loads that same file and `serveScript` answers.
+ */
+export const runScriptInWorker: ScriptRunner = (input, { timeout = DEFAULT_SCRIPT_TIMEOUT }) => new Promise(resolve => {
+  const worker = new Worker(new URL(import.meta.url));
+  const logs: ScriptLog[] = [];
+  let settled = false;
+
+  // Keep whatever the script logged before it failed to finish
+  const finish = (result: ScriptExecutionResult) => {
+    if (settled) return;
+    settled = true;
+    clearTimeout(timer);
+    worker.terminate();
+    resolve(result);
+  };
+  const fail = (error: string) => finish({ request: input.request, scopes: input.scopes, logs, tests: [], error });
+
+  const timer = setTimeout(() => fail(`Script timed out after ${timeout}ms`), timeout);
+
+  worker.on('message', (message: WorkerMessage) => {
+    if (message.type === 'log') logs.push(message.log);
+    else finish(message.result);
+  });
+  worker.on('error', error => fail(error.message || 'Script worker failed'));
+  worker.on('exit', () => fail('Script worker exited before the script finished'));
+
+  // Round-trip through JSON so only plain data crosses into the worker
+  worker.postMessage(JSON.parse(JSON.stringify(input)));
+});
+
+/** The worker side: evaluates the one script it is sent and posts the result back. */
+export function serveScript() {
+  parentPort?.once('message', async (input: ScriptExecutionInput) => {
+    const result = await executeScript(input, {
+      onLog: log => parentPort?.postMessage({ type: 'log', log }),
+      sendRequest: executeRequest,
+    });
+    parentPort?.postMessage({ type: 'result', result });
+  });
+}
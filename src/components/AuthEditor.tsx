@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { PostmanAuth } from '@/types/postman';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface AuthEditorProps {
+  auth?: PostmanAuth;
+  // Called with undefined when the auth should be inherited from the parent
+  onAuthChange: (auth?: PostmanAuth) => void;
+  allowInherit?: boolean;
+}
+
+export function AuthEditor({ auth, onAuthChange, allowInherit }: AuthEditorProps) {
+  const [authType, setAuthType] = useState<string>(auth?.type || (allowInherit ? 'inherit' : 'noauth'));
+  const [bearerToken, setBearerToken] = useState(
+    auth?.bearer?.find(item => item.key === 'token')?.value || ''
+  );
+  const [username, setUsername] = useState(auth?.basic?.find(item => item.key === 'username')?.value || '');
+  const [password, setPassword] = useState(auth?.basic?.find(item => item.key === 'password')?.value || '');
+  const [apiKey, setApiKey] = useState({
+    key: auth?.apikey?.find(item => item.key === 'key')?.value || '',
+    value: auth?.apikey?.find(item => item.key === 'value')?.value || '',
+    in: auth?.apikey?.find(item => item.key === 'in')?.value || 'header',
+  });
+
+  const handleAuthTypeChange = (type: string) => {
+    setAuthType(type);
+    if (type === 'inherit') {
+      onAuthChange(undefined);
+    } else if (type === 'noauth') {
+      onAuthChange({ type: 'noauth' });
+    }
+  };
+
+  const handleBearerTokenChange = (token: string) => {
+    setBearerToken(token);
+    onAuthChange({ type: 'bearer', bearer: [{ key: 'token', value: token, type: 'string' }] });
+  };
+
+  const handleBasicChange = (nextUsername: string, nextPassword: string) => {
+    setUsername(nextUsername);
+    setPassword(nextPassword);
+    onAuthChange({
+      type: 'basic',
+      basic: [
+        { key: 'username', value: nextUsername, type: 'string' },
+        { key: 'password', value: nextPassword, type: 'string' },
+      ],
+    });
+  };
+
+  const handleApiKeyChange = (changes: Partial<typeof apiKey>) => {
+    const next = { ...apiKey, ...changes };
+    setApiKey(next);
+    onAuthChange({
+      type: 'apikey',
+      apikey: [
+        { key: 'key', value: next.key, type: 'string' },
+        { key: 'value', value: next.value, type: 'string' },
+        { key: 'in', value: next.in, type: 'string' },
+      ],
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label>Type</Label>
+        <Select value={authType} onValueChange={handleAuthTypeChange}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {allowInherit && <SelectItem value="inherit">Inherit auth from parent</SelectItem>}
+            <SelectItem value="noauth">No Auth</SelectItem>
+            <SelectItem value="bearer">Bearer Token</SelectItem>
+            <SelectItem value="basic">Basic Auth</SelectItem>
+            <SelectItem value="apikey">API Key</SelectItem>
+            <SelectItem value="oauth2">OAuth 2.0</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {authType === 'inherit' && (
+        <p className="text-sm text-muted-foreground">
+          Uses the auth of the nearest parent folder, or the collection's auth.
+        </p>
+      )}
+
+      {authType === 'bearer' && (
+        <div>
+          <Label>Token</Label>
+          <Input
+            value={bearerToken}
+            onChange={(e) => handleBearerTokenChange(e.target.value)}
+            placeholder="Enter bearer token"
+            type="password"
+          />
+        </div>
+      )}
+
+      {authType === 'basic' && (
+        <div className="space-y-4">
+          <div>
+            <Label>Username</Label>
+            <Input
+              value={username}
+              onChange={(e) => handleBasicChange(e.target.value, password)}
+              placeholder="Enter username"
+            />
+          </div>
+          <div>
+            <Label>Password</Label>
+            <Input
+              value={password}
+              onChange={(e) => handleBasicChange(username, e.target.value)}
+              placeholder="Enter password"
+              type="password"
+            />
+          </div>
+        </div>
+      )}
+
+      {authType === 'apikey' && (
+        <div className="space-y-4">
+          <div>
+            <Label>Key</Label>
+            <Input
+              value={apiKey.key}
+              onChange={(e) => handleApiKeyChange({ key: e.target.value })}
+              placeholder="X-API-Key"
+            />
+          </div>
+          <div>
+            <Label>Value</Label>
+            <Input
+              value={apiKey.value}
+              onChange={(e) => handleApiKeyChange({ value: e.target.value })}
+              placeholder="Enter API key"
+              type="password"
+            />
+          </div>
+          <div>
+            <Label>Add to</Label>
+            <Select value={apiKey.in} onValueChange={(value) => handleApiKeyChange({ in: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="header">Header</SelectItem>
+                <SelectItem value="query">Query Params</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
+
+      {authType === 'oauth2' && (
+        <div className="space-y-4">
+          <div>
+            <Label>Grant Type</Label>
+            <Select defaultValue="client_credentials">
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="client_credentials">Client Credentials</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Access Token URL</Label>
+            <Input placeholder="https://example.com/oauth/token" />
+          </div>
+          <div>
+            <Label>Client ID</Label>
+            <Input placeholder="Your client ID" />
+          </div>
+          <div>
+            <Label>Client Secret</Label>
+            <Input type="password" placeholder="Your client secret" />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
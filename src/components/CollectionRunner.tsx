@@ -0,0 +1,433 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PostmanCollection, PostmanEnvironment } from '@/types/postman';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { CornerDownRight, Download, FileSpreadsheet, Play, Square, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  DEFAULT_LOOP_LIMIT,
+  RunnerResult,
+  RunnerVariables,
+  collectRequests,
+  isFailedResult,
+  runCollection,
+} from '@/utils/collectionRunner';
+import { runScript } from '@/utils/scriptRuntime';
+import { DataRow, getDataColumns, parseDataFile } from '@/utils/dataFileUtils';
+import { REPORT_FORMATS, ReportFormat, RunReport } from '@/utils/runnerReports';
+import { toast } from '@/hooks/use-toast';
+import { LoadTestPanel } from './LoadTestPanel';
+
+interface CollectionRunnerProps {
+  collection: PostmanCollection;
+  folderPath: string[];
+  environment: PostmanEnvironment | null;
+  globals: PostmanEnvironment;
+  scriptTimeout: number;
+  // Called with the variables the run started from and ended with
+  onComplete: (before: RunnerVariables, after: RunnerVariables) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 10;
+
+const formatBytes = (bytes: number) => {
+  if (bytes === 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
+};
+
+const getStatusColor = (status: number) => {
+  if (status >= 200 && status < 300) return 'text-status-success';
+  if (status >= 300 && status < 400) return 'text-status-redirect';
+  if (status >= 400 && status < 500) return 'text-status-client-error';
+  if (status >= 500) return 'text-status-server-error';
+  return 'text-muted-foreground';
+};
+
+export function CollectionRunner({
+  collection,
+  folderPath,
+  environment,
+  globals,
+  scriptTimeout,
+  onComplete,
+  onClose,
+}: CollectionRunnerProps) {
+  const [mode, setMode] = useState<'run' | 'load'>('run');
+  const [iterations, setIterations] = useState(1);
+  const [delay, setDelay] = useState(0);
+  const [loopLimit, setLoopLimit] = useState(DEFAULT_LOOP_LIMIT);
+  const [stopOnFailure, setStopOnFailure] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [results, setResults] = useState<RunnerResult[]>([]);
+  const [dataFile, setDataFile] = useState<{ name: string; rows: DataRow[] } | null>(null);
+  const [report, setReport] = useState<RunReport | null>(null);
+  const stopRequested = useRef(false);
+  // A run outlives renders, so it reports to the latest onComplete, which sees the current state
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+  const dataInputRef = useRef<HTMLInputElement>(null);
+
+  // Leaving the view stops a running collection run
+  useEffect(() => () => {
+    stopRequested.current = true;
+  }, []);
+
+  const requestCount = collectRequests(collection, folderPath).length;
+  const title = folderPath.length ? `${collection.info.name} / ${folderPath.join(' / ')}` : collection.info.name;
+
+  const handleDataFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const rows = parseDataFile(await file.text(), file.name);
+      if (rows.length === 0) {
+        throw new Error('The file has no data rows');
+      }
+      setDataFile({ name: file.name, rows });
+      setResults([]);
+      setReport(null);
+    } catch (error) {
+      toast({
+        title: "Invalid data file",
+        description: error instanceof Error ? error.message : "Failed to parse data file",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRun = async () => {
+    stopRequested.current = false;
+    setResults([]);
+    setReport(null);
+    setIsRunning(true);
+    const startedAt = new Date();
+
+    try {
+      const start: RunnerVariables = { collection, environment, globals };
+      const run = await runCollection(
+        start,
+        folderPath,
+        { iterations, delay, stopOnFailure, scriptTimeout, loopLimit, data: dataFile?.rows },
+        {
+          runScript,
+          onResult: result => setResults(prev => [...prev, result]),
+          shouldStop: () => stopRequested.current,
+        }
+      );
+      onCompleteRef.current(start, run.variables);
+      setReport({
+        name: title,
+        environment: environment?.name,
+        startedAt: startedAt.toISOString(),
+        duration: Date.now() - startedAt.getTime(),
+        results: run.results,
+      });
+
+      const failed = run.results.filter(isFailedResult).length;
+      toast({
+        title: stopRequested.current ? "Run stopped" : "Run complete",
+        description: `${run.results.length} requests, ${failed} failed`,
+        variant: failed > 0 ? "destructive" : "default",
+      });
+    } catch (error) {
+      toast({
+        title: "Run failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleExportReport = (format: ReportFormat) => {
+    if (!report) return;
+    const { extension, mimeType, create } = REPORT_FORMATS[format];
+    const blob = new Blob([create(report)], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${title.replace(/\s*\/\s*/g, ' - ')}.run-report.${extension}`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const allTests = results.flatMap(r => r.tests.filter(t => !t.skipped));
+  const passedTests = allTests.filter(t => t.passed).length;
+  const failedRequests = results.filter(isFailedResult).length;
+  const averageTime = results.length
+    ? Math.round(results.reduce((sum, r) => sum + (r.response?.responseTime || 0), 0) / results.length)
+    : 0;
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center justify-between p-4 border-b border-border">
+        <div className="min-w-0">
+          <h2 className="font-semibold truncate">Runner: {title}</h2>
+          <p className="text-sm text-muted-foreground">{requestCount} {requestCount === 1 ? 'request' : 'requests'}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant={mode === 'run' ? 'secondary' : 'ghost'} onClick={() => setMode('run')}>
+            Functional
+          </Button>
+          <Button size="sm" variant={mode === 'load' ? 'secondary' : 'ghost'} onClick={() => setMode('load')}>
+            Load test
+          </Button>
+          <Button size="sm" variant="ghost" onClick={onClose} disabled={isRunning} title="Close runner">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className={cn('flex flex-col flex-1 min-h-0', mode !== 'run' && 'hidden')}>
+        <div className="flex flex-wrap items-end gap-4 p-4 border-b border-border">
+          <div className="space-y-1">
+            <Label htmlFor="runner-iterations">Iterations</Label>
+            <Input
+              id="runner-iterations"
+              type="number"
+              min={1}
+              value={dataFile ? dataFile.rows.length : iterations}
+              onChange={(e) => setIterations(Math.max(1, Number(e.target.value) || 1))}
+              className="h-8 w-24"
+              disabled={isRunning || !!dataFile}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="runner-delay">Delay (ms)</Label>
+            <Input
+              id="runner-delay"
+              type="number"
+              min={0}
+              step={100}
+              value={delay}
+              onChange={(e) => setDelay(Math.max(0, Number(e.target.value) || 0))}
+              className="h-8 w-24"
+              disabled={isRunning}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="runner-loop-limit" title="How often one request may run per iteration when setNextRequest loops">
+              Loop limit
+            </Label>
+            <Input
+              id="runner-loop-limit"
+              type="number"
+              min={1}
+              value={loopLimit}
+              onChange={(e) => setLoopLimit(Math.max(1, Number(e.target.value) || 1))}
+              className="h-8 w-24"
+              disabled={isRunning}
+            />
+          </div>
+          <div className="flex items-center gap-2 h-8">
+            <Checkbox
+              id="runner-stop-on-failure"
+              checked={stopOnFailure}
+              onCheckedChange={(checked) => setStopOnFailure(checked === true)}
+              disabled={isRunning}
+            />
+            <Label htmlFor="runner-stop-on-failure">Stop on failure</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              ref={dataInputRef}
+              type="file"
+              accept=".csv,.json"
+              onChange={handleDataFileChange}
+              className="hidden"
+            />
+            <Button size="sm" variant="outline" onClick={() => dataInputRef.current?.click()} disabled={isRunning}>
+              <FileSpreadsheet className="h-4 w-4 mr-2" />
+              {dataFile ? dataFile.name : 'Data file'}
+            </Button>
+            {dataFile && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-8 w-8 p-0"
+                onClick={() => setDataFile(null)}
+                disabled={isRunning}
+                title="Remove data file"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+          <div className="ml-auto flex items-center gap-2">
+            {report && !isRunning && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button size="sm" variant="outline">
+                    <Download className="h-4 w-4 mr-2" />
+                    Export report
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {(Object.keys(REPORT_FORMATS) as ReportFormat[]).map(format => (
+                    <DropdownMenuItem key={format} onClick={() => handleExportReport(format)}>
+                      {REPORT_FORMATS[format].label}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+            {isRunning ? (
+              <Button size="sm" variant="destructive" onClick={() => (stopRequested.current = true)}>
+                <Square className="h-4 w-4 mr-2" />
+                Stop
+              </Button>
+            ) : (
+              <Button size="sm" onClick={handleRun} disabled={requestCount === 0}>
+                <Play className="h-4 w-4 mr-2" />
+                Run
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {results.length > 0 && (
+          <div className="flex items-center gap-6 px-4 py-2 border-b border-border text-sm">
+            <span>
+              <span className="text-muted-foreground">Requests: </span>
+              <span className="font-mono">{results.length}</span>
+            </span>
+            <span>
+              <span className="text-muted-foreground">Failed: </span>
+              <span className={cn('font-mono', failedRequests > 0 && 'text-status-server-error')}>{failedRequests}</span>
+            </span>
+            <span>
+              <span className="text-muted-foreground">Tests: </span>
+              <span className="font-mono">{passedTests}/{allTests.length}</span>
+            </span>
+            <span>
+              <span className="text-muted-foreground">Avg. time: </span>
+              <span className="font-mono">{averageTime}ms</span>
+            </span>
+          </div>
+        )}
+
+        <ScrollArea className="flex-1">
+          {results.length === 0 && dataFile && !isRunning ? (
+            <div className="p-4 space-y-2">
+              <p className="text-sm text-muted-foreground">
+                {dataFile.rows.length} rows, one iteration each. Columns are available as {'{{column}}'} variables
+                and through pm.iterationData.
+              </p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-20">Iteration</TableHead>
+                    {getDataColumns(dataFile.rows).map(column => (
+                      <TableHead key={column} className="font-mono">{column}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {dataFile.rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                    <TableRow key={index}>
+                      <TableCell className="font-mono">{index + 1}</TableCell>
+                      {getDataColumns(dataFile.rows).map(column => (
+                        <TableCell key={column} className="font-mono break-all">{row[column]}</TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {dataFile.rows.length > PREVIEW_ROWS && (
+                <p className="text-xs text-muted-foreground">
+                  Showing the first {PREVIEW_ROWS} of {dataFile.rows.length} rows
+                </p>
+              )}
+            </div>
+          ) : results.length === 0 ? (
+            <div className="p-8 text-center text-muted-foreground">
+              {isRunning ? 'Running...' : 'Configure the run and press Run'}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-20">Iteration</TableHead>
+                  <TableHead>Request</TableHead>
+                  <TableHead className="w-28">Status</TableHead>
+                  <TableHead className="w-24">Time</TableHead>
+                  <TableHead className="w-24">Size</TableHead>
+                  <TableHead className="w-32">Tests</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {results.map((result, index) => {
+                  const failedTests = result.tests.filter(t => !t.passed);
+                  const ranTests = result.tests.filter(t => !t.skipped);
+                  return (
+                    <TableRow key={index}>
+                      <TableCell className="font-mono">{result.iteration + 1}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <span className="text-xs font-mono font-medium">{result.method}</span>
+                          <span className="font-medium">{result.name}</span>
+                        </div>
+                        <div className="text-xs text-muted-foreground font-mono truncate max-w-md">{result.url}</div>
+                        {result.error && (
+                          <div className="text-xs text-destructive break-all">{result.error}</div>
+                        )}
+                        {result.nextRequest !== undefined && (
+                          <div className="flex items-center gap-1 text-xs text-status-redirect">
+                            <CornerDownRight className="h-3 w-3" />
+                            {result.nextRequest === null ? 'End of iteration' : `Next: ${result.nextRequest}`}
+                          </div>
+                        )}
+                        {failedTests.map((test, testIndex) => (
+                          <div key={testIndex} className="text-xs text-status-server-error break-all">
+                            {test.name}{test.error && `: ${test.error}`}
+                          </div>
+                        ))}
+                      </TableCell>
+                      <TableCell className={cn('font-mono', result.response && getStatusColor(result.response.status))}>
+                        {result.response ? `${result.response.status} ${result.response.statusText}` : '—'}
+                      </TableCell>
+                      <TableCell className="font-mono">{result.response ? `${result.response.responseTime}ms` : '—'}</TableCell>
+                      <TableCell className="font-mono">{result.response ? formatBytes(result.response.size) : '—'}</TableCell>
+                      <TableCell>
+                        {ranTests.length > 0 ? (
+                          <Badge variant={failedTests.length > 0 ? 'destructive' : 'default'}>
+                            {ranTests.length - failedTests.length}/{ranTests.length} passed
+                          </Badge>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </ScrollArea>
+      </div>
+
+      <div className={cn('flex-1 min-h-0', mode !== 'load' && 'hidden')}>
+        <LoadTestPanel
+          collection={collection}
+          path={folderPath}
+          environment={environment}
+          globals={globals}
+          scriptTimeout={scriptTimeout}
+        />
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { PostmanCollection, PostmanItem } from '@/types/postman';
-import { ChevronDown, ChevronRight, Folder, FileText, Plus, MoreHorizontal, Trash2 } from 'lucide-react';
+import { ChevronDown, ChevronRight, Folder, FileText, Plus, MoreHorizontal, Trash2, Braces, Settings2, Play } from 'lucide-react';
 import { HttpMethodBadge } from './HttpMethodBadge';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
@@ -12,6 +12,9 @@ interface CollectionTreeProps {
   onAddRequest: (collection: PostmanCollection, folderPath?: string[]) => void;
   onAddFolder: (collection: PostmanCollection, folderPath?: string[]) => void;
   onDeleteCollection?: (collection: PostmanCollection) => void;
+  onEditVariables?: (collection: PostmanCollection, folderPath?: string[]) => void;
+  onEditSettings?: (collection: PostmanCollection, folderPath?: string[]) => void;
+  onRunCollection?: (collection: PostmanCollection, folderPath?: string[]) => void;
 }
 
 interface TreeItemProps {
@@ -23,6 +26,9 @@ interface TreeItemProps {
   onRequestSelect: (collection: PostmanCollection, item: PostmanItem, path: string[]) => void;
   onAddRequest: (collection: PostmanCollection, folderPath?: string[]) => void;
   onAddFolder: (collection: PostmanCollection, folderPath?: string[]) => void;
+  onEditVariables?: (collection: PostmanCollection, folderPath?: string[]) => void;
+  onEditSettings?: (collection: PostmanCollection, folderPath?: string[]) => void;
+  onRunCollection?: (collection: PostmanCollection, folderPath?: string[]) => void;
 }
 
 function TreeItem({
@@ -34,6 +40,9 @@ function TreeItem({
   onRequestSelect,
   onAddRequest,
   onAddFolder,
+  onEditVariables,
+  onEditSettings,
+  onRunCollection,
 }: TreeItemProps) {
   const [isExpanded, setIsExpanded] = useState(level < 2);
   const isFolder = !!item.item;
@@ -90,6 +99,46 @@ function TreeItem({
               >
                 <MoreHorizontal className="h-3 w-3" />
               </Button>
+              {onEditVariables && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-6 w-6 p-0"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onEditVariables(collection, currentPath);
+                  }}
+                >
+                  <Braces className="h-3 w-3" />
+                </Button>
+              )}
+              {onEditSettings && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-6 w-6 p-0"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onEditSettings(collection, currentPath);
+                  }}
+                >
+                  <Settings2 className="h-3 w-3" />
+                </Button>
+              )}
+              {onRunCollection && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-6 w-6 p-0"
+                  title="Run"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onRunCollection(collection, currentPath);
+                  }}
+                >
+                  <Play className="h-3 w-3" />
+                </Button>
+              )}
             </div>
           </>
         ) : (
@@ -102,6 +151,20 @@ function TreeItem({
               )}
               <span className="truncate">{item.name}</span>
             </div>
+            {onRunCollection && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100"
+                title="Run"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onRunCollection(collection, currentPath);
+                }}
+              >
+                <Play className="h-3 w-3" />
+              </Button>
+            )}
           </>
         )}
       </div>
@@ -119,6 +182,9 @@ function TreeItem({
               onRequestSelect={onRequestSelect}
               onAddRequest={onAddRequest}
               onAddFolder={onAddFolder}
+              onEditVariables={onEditVariables}
+              onEditSettings={onEditSettings}
+              onRunCollection={onRunCollection}
             />
           ))}
         </div>
@@ -134,6 +200,9 @@ export function CollectionTree({
   onAddRequest,
   onAddFolder,
   onDeleteCollection,
+  onEditVariables,
+  onEditSettings,
+  onRunCollection,
 }: CollectionTreeProps) {
   const [expandedCollections, setExpandedCollections] = useState<Set<string>>(
     new Set(collections.map(c => c.info.name))
@@ -187,6 +256,46 @@ export function CollectionTree({
               >
                 <MoreHorizontal className="h-3 w-3" />
               </Button>
+              {onEditVariables && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-6 w-6 p-0"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onEditVariables(collection);
+                  }}
+                >
+                  <Braces className="h-3 w-3" />
+                </Button>
+              )}
+              {onEditSettings && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-6 w-6 p-0"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onEditSettings(collection);
+                  }}
+                >
+                  <Settings2 className="h-3 w-3" />
+                </Button>
+              )}
+              {onRunCollection && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-6 w-6 p-0"
+                  title="Run"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onRunCollection(collection);
+                  }}
+                >
+                  <Play className="h-3 w-3" />
+                </Button>
+              )}
               {onDeleteCollection && (
                 <Button
                   size="sm"
@@ -216,6 +325,9 @@ export function CollectionTree({
                   onRequestSelect={onRequestSelect}
                   onAddRequest={onAddRequest}
                   onAddFolder={onAddFolder}
+                  onEditVariables={onEditVariables}
+                  onEditSettings={onEditSettings}
+                  onRunCollection={onRunCollection}
                 />
               ))}
             </div>
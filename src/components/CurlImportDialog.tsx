@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { PostmanItem } from '@/types/postman';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { importCurlCommand } from '@/utils/curlImport';
+
+interface CurlImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImport: (item: PostmanItem) => void;
+}
+
+export function CurlImportDialog({ open, onOpenChange, onImport }: CurlImportDialogProps) {
+  const [command, setCommand] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setCommand('');
+      setError(null);
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      onImport(importCurlCommand(command));
+      handleOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not parse the command');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Import cURL</DialogTitle>
+            <DialogDescription>
+              Paste a cURL command, for example from API docs or "Copy as cURL" in the browser's DevTools.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="curl-command">Command</Label>
+            <Textarea
+              id="curl-command"
+              value={command}
+              onChange={(e) => {
+                setCommand(e.target.value);
+                setError(null);
+              }}
+              placeholder="curl https://api.example.com/users -H 'Accept: application/json'"
+              className="min-h-[200px] font-mono text-sm"
+              spellCheck={false}
+              autoFocus
+            />
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!command.trim()}>
+              Import
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
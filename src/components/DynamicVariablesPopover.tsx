@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { DYNAMIC_VARIABLES } from '@/utils/dynamicVariables';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Braces } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+
+export function DynamicVariablesPopover() {
+  const [search, setSearch] = useState('');
+
+  const filtered = DYNAMIC_VARIABLES.filter(v =>
+    v.name.toLowerCase().includes(search.toLowerCase()) ||
+    v.description.toLowerCase().includes(search.toLowerCase())
+  );
+
+  const copyVariable = async (name: string) => {
+    await navigator.clipboard.writeText(`{{${name}}}`);
+    toast({
+      title: "Copied to clipboard",
+      description: `{{${name}}} is generated fresh on every send`,
+    });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="icon" title="Dynamic variables">
+          <Braces className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <div className="p-3 border-b border-border space-y-2">
+          <p className="text-sm font-medium">Dynamic variables</p>
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search variables"
+            className="h-8"
+          />
+        </div>
+        <ScrollArea className="h-72">
+          <div className="p-1">
+            {filtered.map(variable => (
+              <div
+                key={variable.name}
+                className="px-2 py-1.5 rounded-md cursor-pointer hover:bg-accent transition-colors"
+                onClick={() => copyVariable(variable.name)}
+              >
+                <div className="text-sm font-mono">{`{{${variable.name}}}`}</div>
+                <div className="text-xs text-muted-foreground">{variable.description}</div>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      </PopoverContent>
+    </Popover>
+  );
+}
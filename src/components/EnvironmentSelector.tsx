@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import { PostmanEnvironment, KeyValuePair } from '@/types/postman';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { KeyValueEditor } from './KeyValueEditor';
+import { cn } from '@/lib/utils';
+import { Separator } from '@/components/ui/separator';
+import { Download, Globe, Layers, Plus, Settings, Trash2 } from 'lucide-react';
+
+interface EnvironmentSelectorProps {
+  environments: PostmanEnvironment[];
+  activeEnvironmentId: string | null;
+  globals: PostmanEnvironment;
+  onSelect: (environmentId: string | null) => void;
+  onCreate: () => void;
+  onUpdate: (environment: PostmanEnvironment) => void;
+  onDelete: (environment: PostmanEnvironment) => void;
+  onUpdateGlobals: (globals: PostmanEnvironment) => void;
+  onExport: (environment: PostmanEnvironment) => void;
+}
+
+const NO_ENVIRONMENT = 'none';
+
+export function EnvironmentSelector({
+  environments,
+  activeEnvironmentId,
+  globals,
+  onSelect,
+  onCreate,
+  onUpdate,
+  onDelete,
+  onUpdateGlobals,
+  onExport,
+}: EnvironmentSelectorProps) {
+  const [isManagerOpen, setIsManagerOpen] = useState(false);
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select
+        value={activeEnvironmentId ?? NO_ENVIRONMENT}
+        onValueChange={(value) => onSelect(value === NO_ENVIRONMENT ? null : value)}
+      >
+        <SelectTrigger className="w-48 h-9">
+          <Layers className="h-4 w-4 mr-2 text-muted-foreground" />
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_ENVIRONMENT}>No Environment</SelectItem>
+          {environments.map(environment => (
+            <SelectItem key={environment.id} value={environment.id}>
+              {environment.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Button variant="outline" size="sm" onClick={() => setIsManagerOpen(true)}>
+        <Settings className="h-4 w-4" />
+      </Button>
+
+      <EnvironmentManager
+        open={isManagerOpen}
+        onOpenChange={setIsManagerOpen}
+        environments={environments}
+        activeEnvironmentId={activeEnvironmentId}
+        globals={globals}
+        onCreate={onCreate}
+        onUpdate={onUpdate}
+        onDelete={onDelete}
+        onUpdateGlobals={onUpdateGlobals}
+        onExport={onExport}
+      />
+    </div>
+  );
+}
+
+interface EnvironmentManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  environments: PostmanEnvironment[];
+  activeEnvironmentId: string | null;
+  globals: PostmanEnvironment;
+  onCreate: () => void;
+  onUpdate: (environment: PostmanEnvironment) => void;
+  onDelete: (environment: PostmanEnvironment) => void;
+  onUpdateGlobals: (globals: PostmanEnvironment) => void;
+  onExport: (environment: PostmanEnvironment) => void;
+}
+
+function EnvironmentManager({
+  open,
+  onOpenChange,
+  environments,
+  activeEnvironmentId,
+  globals,
+  onCreate,
+  onUpdate,
+  onDelete,
+  onUpdateGlobals,
+  onExport,
+}: EnvironmentManagerProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(activeEnvironmentId);
+  const selected = environments.find(e => e.id === selectedId)
+    || (selectedId !== globals.id && environments[0])
+    || globals;
+  const isGlobalsSelected = selected === globals;
+
+  const variablePairs: KeyValuePair[] = selected.values.map(v => ({
+    key: v.key,
+    value: v.value,
+    enabled: v.enabled !== false,
+    secret: v.type === 'secret'
+  }));
+
+  const updateVariables = (pairs: KeyValuePair[]) => {
+    (isGlobalsSelected ? onUpdateGlobals : onUpdate)({
+      ...selected,
+      values: pairs.map((pair, index) => ({
+        ...selected.values[index],
+        key: pair.key,
+        value: pair.value,
+        type: pair.secret ? 'secret' : 'default',
+        enabled: pair.enabled
+      }))
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Environments</DialogTitle>
+          <DialogDescription>
+            Variables defined here replace {'{{name}}'} placeholders when a request is sent.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-4 min-h-[360px]">
+          <div className="col-span-1 border-r border-border pr-4 space-y-1">
+            <div
+              className={cn(
+                'flex items-center gap-2 px-2 py-1.5 text-sm cursor-pointer rounded-md hover:bg-accent transition-colors',
+                isGlobalsSelected && 'bg-accent'
+              )}
+              onClick={() => setSelectedId(globals.id)}
+            >
+              <Globe className="h-3 w-3 text-muted-foreground" />
+              <span className="flex-1 truncate">Globals</span>
+            </div>
+            <Separator className="my-2" />
+            {environments.map(environment => (
+              <div
+                key={environment.id}
+                className={cn(
+                  'group flex items-center gap-2 px-2 py-1.5 text-sm cursor-pointer rounded-md hover:bg-accent transition-colors',
+                  selected.id === environment.id && 'bg-accent'
+                )}
+                onClick={() => setSelectedId(environment.id)}
+              >
+                <span className="flex-1 truncate">{environment.name}</span>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 text-destructive hover:text-destructive"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onDelete(environment);
+                  }}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+
+            <Button variant="outline" size="sm" onClick={onCreate} className="w-full h-8 mt-2">
+              <Plus className="h-3 w-3 mr-1" />
+              New Environment
+            </Button>
+          </div>
+
+          <div className="col-span-2 space-y-4 overflow-auto max-h-[60vh]">
+            {!isGlobalsSelected ? (
+              <div>
+                <Label>Name</Label>
+                <Input
+                  value={selected.name}
+                  onChange={(e) => onUpdate({ ...selected, name: e.target.value })}
+                  className="h-8"
+                />
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Globals are available in every request and have the lowest precedence.
+              </p>
+            )}
+            <KeyValueEditor
+              pairs={variablePairs}
+              onChange={updateVariables}
+              placeholder={{ key: 'Variable', value: 'Value' }}
+              allowSecrets
+            />
+            <div className="flex justify-end">
+              <Button variant="outline" size="sm" onClick={() => onExport(selected)}>
+                <Download className="h-4 w-4 mr-2" />
+                Export
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,108 @@
+import React from 'react';
+import { KeyValuePair, PostmanAuth, PostmanEvent, PostmanHeader } from '@/types/postman';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { KeyValueEditor } from './KeyValueEditor';
+import { AuthEditor } from './AuthEditor';
+import { getEventScript, setEventScript } from '@/utils/postmanUtils';
+
+export interface FolderSettings {
+  header?: PostmanHeader[];
+  auth?: PostmanAuth;
+  event?: PostmanEvent[];
+}
+
+interface FolderSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  // Folders can inherit auth from their parent; collections are the root
+  isFolder: boolean;
+  settings: FolderSettings;
+  onChange: (settings: FolderSettings) => void;
+}
+
+export function FolderSettingsDialog({ open, onOpenChange, title, isFolder, settings, onChange }: FolderSettingsDialogProps) {
+  const headerPairs: KeyValuePair[] = settings.header?.map(h => ({
+    key: h.key,
+    value: h.value,
+    enabled: !h.disabled
+  })) || [];
+
+  const updateHeaders = (pairs: KeyValuePair[]) => {
+    onChange({
+      ...settings,
+      header: pairs.map(pair => ({
+        key: pair.key,
+        value: pair.value,
+        disabled: !pair.enabled,
+        type: 'text'
+      }))
+    });
+  };
+
+  const updateScript = (listen: PostmanEvent['listen'], script: string) => {
+    onChange({ ...settings, event: setEventScript(settings.event, listen, script) });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            Requests inside inherit these headers and auth. Scripts run before the request's own, outermost first.
+          </DialogDescription>
+        </DialogHeader>
+        <Tabs defaultValue="headers">
+          <TabsList>
+            <TabsTrigger value="headers">Headers</TabsTrigger>
+            <TabsTrigger value="auth">Auth</TabsTrigger>
+            <TabsTrigger value="scripts">Scripts</TabsTrigger>
+          </TabsList>
+
+          <div className="max-h-[60vh] overflow-auto pt-4">
+            <TabsContent value="headers" className="m-0">
+              <KeyValueEditor
+                pairs={headerPairs}
+                onChange={updateHeaders}
+                placeholder={{ key: 'Header', value: 'Value' }}
+              />
+            </TabsContent>
+
+            <TabsContent value="auth" className="m-0">
+              <AuthEditor
+                auth={settings.auth}
+                onAuthChange={(auth) => onChange({ ...settings, auth })}
+                allowInherit={isFolder}
+              />
+            </TabsContent>
+
+            <TabsContent value="scripts" className="m-0 space-y-4">
+              <div>
+                <Label>Pre-request Script</Label>
+                <Textarea
+                  value={getEventScript(settings.event, 'prerequest')}
+                  onChange={(e) => updateScript('prerequest', e.target.value)}
+                  className="min-h-[160px] font-mono text-sm"
+                  spellCheck={false}
+                />
+              </div>
+              <div>
+                <Label>Tests</Label>
+                <Textarea
+                  value={getEventScript(settings.event, 'test')}
+                  onChange={(e) => updateScript('test', e.target.value)}
+                  className="min-h-[160px] font-mono text-sm"
+                  spellCheck={false}
+                />
+              </div>
+            </TabsContent>
+          </div>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,181 @@
+import React, { useRef, useState } from 'react';
+import { GraphQLSchema } from 'graphql';
+import { PostmanCollection } from '@/types/postman';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Download, FileUp } from 'lucide-react';
+import { executeRequest } from '@/utils/postmanUtils';
+import { parseHeaderString } from '@/utils/collectionMigration';
+import { DEFAULT_SELECTION_DEPTH, INTROSPECTION_QUERY, convertGraphqlSchema, countGraphqlOperations, parseGraphqlSchema } from '@/utils/graphqlImport';
+
+interface GraphqlImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImport: (collection: PostmanCollection) => Promise<void>;
+}
+
+const MAX_DEPTH = 5;
+
+export function GraphqlImportDialog({ open, onOpenChange, onImport }: GraphqlImportDialogProps) {
+  const [endpoint, setEndpoint] = useState('');
+  const [headers, setHeaders] = useState('');
+  const [depth, setDepth] = useState(DEFAULT_SELECTION_DEPTH);
+  const [source, setSource] = useState<{ name: string; schema: GraphQLSchema } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setSource(null);
+      setError(null);
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleFetch = async () => {
+    setIsLoading(true);
+    try {
+      const response = await executeRequest({
+        method: 'POST',
+        header: parseHeaderString(headers).filter(h => !h.disabled),
+        url: endpoint.trim(),
+        body: { mode: 'graphql', graphql: { query: INTROSPECTION_QUERY } },
+      });
+      if (response.status === 0) {
+        throw new Error(response.data?.error || 'Could not reach the endpoint');
+      }
+      if (typeof response.data !== 'object' || response.data === null) {
+        throw new Error(`Introspection request failed: ${response.status} ${response.statusText}`);
+      }
+      let name = endpoint.trim();
+      try {
+        name = new URL(name).host;
+      } catch {
+        // Keep the endpoint as typed
+      }
+      setSource({ name, schema: parseGraphqlSchema(response.data) });
+      setError(null);
+    } catch (err) {
+      setSource(null);
+      setError(err instanceof Error ? err.message : 'Failed to load the schema');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setSource({ name: file.name.replace(/\.(json|graphqls?|gql)$/i, ''), schema: parseGraphqlSchema(await file.text()) });
+      setError(null);
+    } catch (err) {
+      setSource(null);
+      setError(err instanceof SyntaxError ? 'Invalid introspection JSON' : err instanceof Error ? err.message : 'Failed to read file');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!source) return;
+    setIsLoading(true);
+    try {
+      const header = parseHeaderString(headers);
+      await onImport(convertGraphqlSchema(source.schema, { depth, endpoint: endpoint.trim(), header }, source.name));
+      handleOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import GraphQL schema');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import GraphQL Schema</DialogTitle>
+          <DialogDescription>
+            Generate a request for every query and mutation, from a live endpoint or an introspection JSON or SDL file.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="graphql-endpoint">Endpoint</Label>
+            <div className="flex gap-2 mt-2">
+              <Input
+                id="graphql-endpoint"
+                value={endpoint}
+                onChange={(e) => setEndpoint(e.target.value)}
+                placeholder="https://api.example.com/graphql"
+              />
+              <Button variant="outline" onClick={handleFetch} disabled={!endpoint.trim() || isLoading}>
+                <Download className="h-4 w-4 mr-2" />
+                Fetch
+              </Button>
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="graphql-headers">Headers</Label>
+            <Textarea
+              id="graphql-headers"
+              value={headers}
+              onChange={(e) => setHeaders(e.target.value)}
+              placeholder="Authorization: Bearer {{token}}"
+              className="min-h-[60px] font-mono text-sm mt-2"
+            />
+          </div>
+
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.graphql,.graphqls,.gql"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <FileUp className="h-4 w-4 mr-2" />
+            Choose schema file
+          </Button>
+
+          <div>
+            <Label htmlFor="graphql-depth">Selection depth</Label>
+            <Input
+              id="graphql-depth"
+              type="number"
+              min={1}
+              max={MAX_DEPTH}
+              value={depth}
+              onChange={(e) => setDepth(Math.min(MAX_DEPTH, Math.max(1, Number(e.target.value) || 1)))}
+              className="w-24 mt-2"
+            />
+          </div>
+
+          {source && (
+            <p className="text-sm text-muted-foreground">
+              {countGraphqlOperations(source.schema)} operations found in {source.name}.
+            </p>
+          )}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!source || isLoading}>
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,124 @@
+import React, { useRef, useState } from 'react';
+import { PostmanCollection } from '@/types/postman';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { FileUp } from 'lucide-react';
+import { HarImportOptions, HarLog, convertHarToCollection, filterHarEntries, isHarLog } from '@/utils/harImport';
+
+interface HarImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImport: (collection: PostmanCollection) => Promise<void>;
+}
+
+const OPTION_LABELS: Record<keyof HarImportOptions, string> = {
+  skipStaticAssets: 'Skip static assets (scripts, styles, images, fonts)',
+  dedupe: 'Remove duplicate requests',
+  saveResponses: 'Save recorded responses as examples',
+};
+
+export function HarImportDialog({ open, onOpenChange, onImport }: HarImportDialogProps) {
+  const [har, setHar] = useState<{ name: string; log: HarLog } | null>(null);
+  const [options, setOptions] = useState<HarImportOptions>({ skipStaticAssets: true, dedupe: true, saveResponses: true });
+  const [error, setError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setHar(null);
+      setError(null);
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const json = JSON.parse(await file.text());
+      if (!isHarLog(json)) {
+        throw new Error('Not a HAR file: log.entries is missing');
+      }
+      setHar({ name: file.name.replace(/\.har$/i, ''), log: json });
+      setError(null);
+    } catch (err) {
+      setHar(null);
+      setError(err instanceof SyntaxError ? 'Invalid HAR file' : err instanceof Error ? err.message : 'Failed to read file');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!har) return;
+    setIsImporting(true);
+    try {
+      await onImport(convertHarToCollection(har.log, options, har.name));
+      handleOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import HAR file');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const selected = har ? filterHarEntries(har.log, options).length : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import HAR</DialogTitle>
+          <DialogDescription>
+            Turn a recorded browser session, such as DevTools' "Save all as HAR", into a collection with a folder per host.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".har,.json"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <FileUp className="h-4 w-4 mr-2" />
+            {har ? har.name : 'Choose HAR file'}
+          </Button>
+
+          {(Object.keys(OPTION_LABELS) as Array<keyof HarImportOptions>).map(key => (
+            <div key={key} className="flex items-center gap-2">
+              <Checkbox
+                id={`har-${key}`}
+                checked={options[key]}
+                onCheckedChange={(checked) => setOptions(prev => ({ ...prev, [key]: checked === true }))}
+              />
+              <Label htmlFor={`har-${key}`}>{OPTION_LABELS[key]}</Label>
+            </div>
+          ))}
+
+          {har && (
+            <p className="text-sm text-muted-foreground">
+              {selected} of {har.log.log.entries.length} entries will be imported.
+            </p>
+          )}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!har || selected === 0 || isImporting}>
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,7 +3,8 @@ import { KeyValuePair } from '@/types/postman';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
-import { Plus, Trash2 } from 'lucide-react';
+import { VariableInput } from './VariableInput';
+import { Plus, Trash2, Lock, LockOpen } from 'lucide-react';
 
 interface KeyValueEditorProps {
   pairs: KeyValuePair[];
@@ -12,9 +13,12 @@ interface KeyValueEditorProps {
     key?: string;
     value?: string;
   };
+  allowSecrets?: boolean;
 }
 
-export function KeyValueEditor({ pairs, onChange, placeholder }: KeyValueEditorProps) {
+export function KeyValueEditor({ pairs, onChange, placeholder, allowSecrets }: KeyValueEditorProps) {
+  const valueSpan = allowSecrets ? 'col-span-4' : 'col-span-5';
+
   const addPair = () => {
     onChange([...pairs, { key: '', value: '', enabled: true }]);
   };
@@ -34,7 +38,8 @@ export function KeyValueEditor({ pairs, onChange, placeholder }: KeyValueEditorP
       <div className="grid grid-cols-12 gap-2 text-xs text-muted-foreground font-medium px-2">
         <div className="col-span-1"></div>
         <div className="col-span-5">{placeholder?.key || 'Key'}</div>
-        <div className="col-span-5">{placeholder?.value || 'Value'}</div>
+        <div className={valueSpan}>{placeholder?.value || 'Value'}</div>
+        {allowSecrets && <div className="col-span-1"></div>}
         <div className="col-span-1"></div>
       </div>
 
@@ -54,14 +59,37 @@ export function KeyValueEditor({ pairs, onChange, placeholder }: KeyValueEditorP
               className="h-8"
             />
           </div>
-          <div className="col-span-5">
-            <Input
-              value={pair.value}
-              onChange={(e) => updatePair(index, 'value', e.target.value)}
-              placeholder={placeholder?.value || 'Value'}
-              className="h-8"
-            />
+          <div className={valueSpan}>
+            {pair.secret ? (
+              <Input
+                value={pair.value}
+                onChange={(e) => updatePair(index, 'value', e.target.value)}
+                placeholder={placeholder?.value || 'Value'}
+                type="password"
+                className="h-8"
+              />
+            ) : (
+              <VariableInput
+                value={pair.value}
+                onChange={(value) => updatePair(index, 'value', value)}
+                placeholder={placeholder?.value || 'Value'}
+                className="h-8"
+              />
+            )}
           </div>
+          {allowSecrets && (
+            <div className="col-span-1 flex justify-center">
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-8 w-8 p-0"
+                title={pair.secret ? 'Secret (masked and encrypted)' : 'Mark as secret'}
+                onClick={() => updatePair(index, 'secret', !pair.secret)}
+              >
+                {pair.secret ? <Lock className="h-3 w-3" /> : <LockOpen className="h-3 w-3 text-muted-foreground" />}
+              </Button>
+            </div>
+          )}
           <div className="col-span-1 flex justify-center">
             <Button
               size="sm"
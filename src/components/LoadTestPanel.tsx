@@ -0,0 +1,212 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { PostmanCollection, PostmanEnvironment } from '@/types/postman';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Play, Square } from 'lucide-react';
+import { LoadTestSample, getLoadTestTimeline, runLoadTest, summarizeLoadTest } from '@/utils/loadTest';
+import { runScript } from '@/utils/scriptRuntime';
+import { toast } from '@/hooks/use-toast';
+
+interface LoadTestPanelProps {
+  collection: PostmanCollection;
+  path: string[];
+  environment: PostmanEnvironment | null;
+  globals: PostmanEnvironment;
+  scriptTimeout: number;
+}
+
+// Charts are redrawn on this interval while a test runs rather than on every response
+const REFRESH_INTERVAL = 500;
+
+const throughputConfig: ChartConfig = {
+  throughput: { label: 'Requests/s', color: 'hsl(var(--status-redirect))' },
+};
+
+const errorRateConfig: ChartConfig = {
+  errorRate: { label: 'Error rate (%)', color: 'hsl(var(--status-server-error))' },
+};
+
+const latencyConfig: ChartConfig = {
+  p50: { label: 'p50', color: 'hsl(var(--status-success))' },
+  p90: { label: 'p90', color: 'hsl(var(--status-client-error))' },
+  p99: { label: 'p99', color: 'hsl(var(--status-server-error))' },
+};
+
+export function LoadTestPanel({ collection, path, environment, globals, scriptTimeout }: LoadTestPanelProps) {
+  const [iterations, setIterations] = useState(100);
+  const [concurrency, setConcurrency] = useState(10);
+  const [rampUp, setRampUp] = useState(0);
+  const [isRunning, setIsRunning] = useState(false);
+  const [samples, setSamples] = useState<LoadTestSample[]>([]);
+  const liveSamples = useRef<LoadTestSample[]>([]);
+  const stopRequested = useRef(false);
+
+  // Leaving the view stops a running test
+  useEffect(() => () => {
+    stopRequested.current = true;
+  }, []);
+
+  useEffect(() => {
+    if (!isRunning) return;
+    const timer = setInterval(() => setSamples([...liveSamples.current]), REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, [isRunning]);
+
+  const handleStart = async () => {
+    stopRequested.current = false;
+    liveSamples.current = [];
+    setSamples([]);
+    setIsRunning(true);
+
+    try {
+      const result = await runLoadTest(
+        { collection, environment, globals },
+        path,
+        { iterations, concurrency, rampUp, scriptTimeout },
+        {
+          runScript,
+          onSample: sample => liveSamples.current.push(sample),
+          shouldStop: () => stopRequested.current,
+        }
+      );
+      setSamples(result);
+    } catch (error) {
+      toast({
+        title: "Load test failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const timeline = getLoadTestTimeline(samples);
+  const summary = summarizeLoadTest(samples);
+
+  const stats = [
+    { label: 'Requests', value: summary.requests },
+    { label: 'Errors', value: `${summary.errors} (${summary.errorRate}%)` },
+    { label: 'Throughput', value: `${summary.throughput}/s` },
+    { label: 'Average', value: `${summary.average}ms` },
+    { label: 'p50', value: `${summary.p50}ms` },
+    { label: 'p90', value: `${summary.p90}ms` },
+    { label: 'p99', value: `${summary.p99}ms` },
+  ];
+
+  const renderChart = (title: string, config: ChartConfig, unit: string) => (
+    <div className="rounded-md border p-3">
+      <p className="text-sm font-medium mb-2">{title}</p>
+      <ChartContainer config={config} className="aspect-auto h-48 w-full">
+        <LineChart data={timeline} margin={{ left: 0, right: 8, top: 4, bottom: 0 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="second" tickLine={false} axisLine={false} tickFormatter={(value) => `${value}s`} />
+          <YAxis tickLine={false} axisLine={false} width={48} tickFormatter={(value) => `${value}${unit}`} />
+          <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `${payload?.[0]?.payload.second}s`} />} />
+          {Object.keys(config).length > 1 && <ChartLegend content={<ChartLegendContent />} />}
+          {Object.keys(config).map(key => (
+            <Line
+              key={key}
+              dataKey={key}
+              type="monotone"
+              stroke={`var(--color-${key})`}
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+            />
+          ))}
+        </LineChart>
+      </ChartContainer>
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      <div className="flex flex-wrap items-end gap-4 p-4 border-b border-border">
+        <div className="space-y-1">
+          <Label htmlFor="load-iterations">Iterations</Label>
+          <Input
+            id="load-iterations"
+            type="number"
+            min={1}
+            value={iterations}
+            onChange={(e) => setIterations(Math.max(1, Number(e.target.value) || 1))}
+            className="h-8 w-24"
+            disabled={isRunning}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="load-concurrency">Concurrency</Label>
+          <Input
+            id="load-concurrency"
+            type="number"
+            min={1}
+            value={concurrency}
+            onChange={(e) => setConcurrency(Math.max(1, Number(e.target.value) || 1))}
+            className="h-8 w-24"
+            disabled={isRunning}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="load-ramp-up">Ramp-up (ms)</Label>
+          <Input
+            id="load-ramp-up"
+            type="number"
+            min={0}
+            step={1000}
+            value={rampUp}
+            onChange={(e) => setRampUp(Math.max(0, Number(e.target.value) || 0))}
+            className="h-8 w-28"
+            disabled={isRunning}
+          />
+        </div>
+        <div className="ml-auto">
+          {isRunning ? (
+            <Button size="sm" variant="destructive" onClick={() => (stopRequested.current = true)}>
+              <Square className="h-4 w-4 mr-2" />
+              Stop
+            </Button>
+          ) : (
+            <Button size="sm" onClick={handleStart}>
+              <Play className="h-4 w-4 mr-2" />
+              Start load test
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {samples.length > 0 && (
+        <div className="flex flex-wrap items-center gap-6 px-4 py-2 border-b border-border text-sm">
+          {stats.map(stat => (
+            <span key={stat.label}>
+              <span className="text-muted-foreground">{stat.label}: </span>
+              <span className="font-mono">{stat.value}</span>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <ScrollArea className="flex-1">
+        {samples.length === 0 ? (
+          <div className="p-8 text-center text-muted-foreground">
+            {isRunning
+              ? 'Waiting for the first responses...'
+              : 'Each iteration runs every request in order. Scripts run too, but their variable changes are discarded.'}
+          </div>
+        ) : (
+          <div className="grid gap-4 p-4 lg:grid-cols-2">
+            {renderChart('Throughput', throughputConfig, '')}
+            {renderChart('Error rate', errorRateConfig, '%')}
+            <div className="lg:col-span-2">
+              {renderChart('Latency percentiles', latencyConfig, 'ms')}
+            </div>
+          </div>
+        )}
+      </ScrollArea>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+
+interface PassphraseDialogProps {
+  mode: 'unlock' | 'create' | null;
+  onSubmit: (passphrase: string) => Promise<void>;
+  onSkip: () => void;
+}
+
+export function PassphraseDialog({ mode, onSubmit, onSkip }: PassphraseDialogProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const reset = () => {
+    setPassphrase('');
+    setConfirmation('');
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+    if (mode === 'create' && passphrase !== confirmation) {
+      setError('Passphrases do not match');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit(passphrase);
+      reset();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unlock secrets');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSkip = () => {
+    reset();
+    onSkip();
+  };
+
+  return (
+    <Dialog open={!!mode} onOpenChange={(open) => !open && handleSkip()}>
+      <DialogContent className="max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{mode === 'create' ? 'Set a secrets passphrase' : 'Unlock secrets'}</DialogTitle>
+            <DialogDescription>
+              {mode === 'create'
+                ? 'Secret variables are encrypted with this passphrase before they are saved. It cannot be recovered if lost.'
+                : 'Enter your passphrase to decrypt secret variables. Skipping keeps them locked for this session.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="secrets-passphrase">Passphrase</Label>
+            <Input
+              id="secrets-passphrase"
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              autoFocus
+            />
+          </div>
+
+          {mode === 'create' && (
+            <div className="space-y-2">
+              <Label htmlFor="secrets-passphrase-confirm">Confirm passphrase</Label>
+              <Input
+                id="secrets-passphrase-confirm"
+                type="password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+              />
+            </div>
+          )}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={handleSkip}>
+              Skip
+            </Button>
+            <Button type="submit" disabled={!passphrase || isSubmitting}>
+              {mode === 'create' ? 'Set passphrase' : 'Unlock'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
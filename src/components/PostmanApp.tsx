@@ -1,30 +1,78 @@
-import React, { useState, useEffect } from 'react';
-import { PostmanCollection, PostmanItem, PostmanRequest, RequestResponse } from '@/types/postman';
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import { PostmanCollection, PostmanEnvironment, PostmanEvent, PostmanItem, PostmanRequest, PostmanVariable, RequestResponse, ScriptLog, TestResult } from '@/types/postman';
 import { CollectionTree } from './CollectionTree';
+import { EnvironmentSelector } from './EnvironmentSelector';
+import { VariablesDialog } from './VariablesDialog';
+import { FolderSettingsDialog, FolderSettings } from './FolderSettingsDialog';
+import { PassphraseDialog } from './PassphraseDialog';
 import { RequestEditor } from './RequestEditor';
 import { ResponseViewer } from './ResponseViewer';
+import { CollectionRunner } from './CollectionRunner';
+import { CurlImportDialog } from './CurlImportDialog';
+import { HarImportDialog } from './HarImportDialog';
+import { GraphqlImportDialog } from './GraphqlImportDialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from '@/components/ui/resizable';
 import { Separator } from '@/components/ui/separator';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { 
   parsePostmanCollection, 
   exportCollection, 
   createNewCollection, 
   createNewRequest, 
   createNewFolder,
+  createNewEnvironment,
   findItemByPath,
-  executeRequest,
+  uniqueItemName,
+  getInheritedScripts,
   saveToLocalStorage,
   loadFromLocalStorage,
   checkFileSystemSupport,
   selectCollectionsFolder,
+  pickDirectory,
+  pickFile,
+  checkFilePickerSupport,
   loadCollectionsFromFolder,
   saveCollectionToFolder,
   deleteCollectionFromFolder,
-  importCollectionToFolder
+  detectPostmanFileType,
+  parsePostmanEnvironment,
+  exportEnvironment,
+  loadEnvironmentsFromFolder,
+  saveEnvironmentToFolder,
+  deleteEnvironmentFromFolder
 } from '@/utils/postmanUtils';
-import { Upload, Download, Plus, FileText, Folder, Trash2 } from 'lucide-react';
+import { VariableScopes, applyVariableChanges, buildVariableScopes, toVariableMap } from '@/utils/variableUtils';
+import { convertOpenApiToCollection, isOpenApiDocument } from '@/utils/openApiImport';
+import { convertInsomniaExport, isInsomniaExport } from '@/utils/insomniaImport';
+import { readBrunoCollection, writeBrunoCollection } from '@/utils/brunoCollection';
+import { HTTP_FILE_EXTENSIONS, isHttpFileName, parseHttpFile, serializeHttpFile } from '@/utils/httpFile';
+import { parseJsonOrYaml } from '@/utils/yamlUtils';
+import { YAMLParseError } from 'yaml';
+import { runScript } from '@/utils/scriptRuntime';
+import { DEFAULT_SCRIPT_TIMEOUT } from '@/utils/scriptSandbox';
+import { RunnerVariables, runRequest } from '@/utils/collectionRunner';
+import { VariableScopesContext } from '@/hooks/use-variable-scopes';
+import {
+  SecretVault,
+  SecretsLockedError,
+  openSecretVault,
+  createPassphraseCheck,
+  sealCollectionSecrets,
+  sealCollectionForSave,
+  unsealCollectionSecrets,
+  redactCollectionSecrets,
+  sealEnvironmentSecrets,
+  sealEnvironmentForSave,
+  unsealEnvironmentSecrets,
+  redactSecrets,
+  collectionHasSecrets,
+  containsEncryptedValue,
+  environmentHasSecrets,
+  collectSecretNames
+} from '@/utils/secretUtils';
+import { Upload, Download, Plus, FileText, Folder, Trash2, KeyRound, Terminal, Globe, FileCode, Network } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 
 export function PostmanApp() {
@@ -33,9 +81,64 @@ export function PostmanApp() {
   const [activeRequest, setActiveRequest] = useState<PostmanRequest | null>(null);
   const [activeRequestPath, setActiveRequestPath] = useState<string[]>([]);
   const [response, setResponse] = useState<RequestResponse | null>(null);
+  const [testResults, setTestResults] = useState<TestResult[] | undefined>(undefined);
+  const [scriptLogs, setScriptLogs] = useState<ScriptLog[]>([]);
+  const [scriptTimeout, setScriptTimeout] = useState<number>(
+    () => loadFromLocalStorage<number>('postman-script-timeout', DEFAULT_SCRIPT_TIMEOUT)
+  );
   const [isLoading, setIsLoading] = useState(false);
   const [folderHandle, setFolderHandle] = useState<any>(null);
   const [usingFileSystem, setUsingFileSystem] = useState(false);
+  const [environments, setEnvironments] = useState<PostmanEnvironment[]>([]);
+  const [activeEnvironmentId, setActiveEnvironmentId] = useState<string | null>(
+    () => loadFromLocalStorage<string | null>('postman-active-environment', null)
+  );
+  const [globals, setGlobals] = useState<PostmanEnvironment>(
+    () => loadFromLocalStorage<PostmanEnvironment>('postman-globals', createGlobals())
+  );
+  const [variablesTarget, setVariablesTarget] = useState<{ collectionId: string; folderPath: string[] } | null>(null);
+  const [settingsTarget, setSettingsTarget] = useState<{ collectionId: string; folderPath: string[] } | null>(null);
+  const [runnerTarget, setRunnerTarget] = useState<{ collectionId: string; folderPath: string[] } | null>(null);
+  const [secretVault, setSecretVault] = useState<SecretVault | null>(null);
+  const [passphraseMode, setPassphraseMode] = useState<'unlock' | 'create' | null>(
+    () => (loadFromLocalStorage<string | null>('postman-secrets-check', null) ? 'unlock' : null)
+  );
+  const passphrasePromptShown = useRef(false);
+  // Set when a save was skipped because secrets could not be encrypted
+  const secretsUnsaved = useRef(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // .http files opened through the file picker, by collection id, so they can be saved back
+  const httpFileHandles = useRef(new Map<string, FileSystemFileHandle>());
+  const [curlImportOpen, setCurlImportOpen] = useState(false);
+  const [harImportOpen, setHarImportOpen] = useState(false);
+  const [graphqlImportOpen, setGraphqlImportOpen] = useState(false);
+
+  const activeEnvironment = environments.find(e => e.id === activeEnvironmentId) || null;
+  // Look up the latest copy so variable edits made since selection are applied
+  const currentCollection = collections.find(c => c.info._postman_id === activeCollection?.info._postman_id) || activeCollection;
+
+  const runnerCollection = runnerTarget && collections.find(c => c.info._postman_id === runnerTarget.collectionId);
+
+  const activeItem = currentCollection && activeRequestPath.length
+    ? findItemByPath(currentCollection, activeRequestPath)
+    : null;
+
+  const variableScopes = useMemo(() => buildVariableScopes({
+    collection: currentCollection,
+    path: activeRequestPath,
+    environment: activeEnvironment,
+    globals,
+  }), [currentCollection, activeRequestPath, activeEnvironment, globals]);
+
+  const variableContext = useMemo(() => ({
+    scopes: variableScopes,
+    secrets: collectSecretNames(
+      currentCollection?.variable,
+      ...activeRequestPath.map((_, i) => currentCollection && findItemByPath(currentCollection, activeRequestPath.slice(0, i + 1))?.variable),
+      activeEnvironment?.values,
+      globals.values
+    ),
+  }), [variableScopes, currentCollection, activeRequestPath, activeEnvironment, globals]);
 
   // Load from localStorage on mount or set up file system
   useEffect(() => {
@@ -46,6 +149,7 @@ export function PostmanApp() {
       if (savedHandle) {
         setFolderHandle(savedHandle);
         loadCollectionsFromFolder(savedHandle).then(setCollections);
+        loadEnvironmentsFromFolder(savedHandle).then(setEnvironments);
       } else {
         // Load sample collection
         const sampleCollection = createSampleCollection();
@@ -60,28 +164,164 @@ export function PostmanApp() {
         const sampleCollection = createSampleCollection();
         setCollections([sampleCollection]);
       }
+      setEnvironments(loadFromLocalStorage<PostmanEnvironment[]>('postman-environments', []));
     }
   }, []);
 
-  // Save to localStorage when not using file system
-  useEffect(() => {
-    if (!usingFileSystem) {
-      saveToLocalStorage('postman-collections', collections);
+  // Secrets are never saved in plain text: while no vault is open a secret that would have to
+  // be written is held back, its value stays in memory and the passphrase is asked for
+  const promptForLockedSecrets = useCallback(() => {
+    secretsUnsaved.current = true;
+    if (!passphrasePromptShown.current) {
+      passphrasePromptShown.current = true;
+      setPassphraseMode(loadFromLocalStorage<string | null>('postman-secrets-check', null) ? 'unlock' : 'create');
     }
-  }, [collections, usingFileSystem]);
+  }, []);
+
+  const deferLockedSecrets = useCallback((error: unknown) => {
+    if (!(error instanceof SecretsLockedError)) return false;
+    promptForLockedSecrets();
+    return true;
+  }, [promptForLockedSecrets]);
+
+  const reportSaveError = useCallback((error: unknown) => {
+    toast({
+      title: "Save failed",
+      description: error instanceof Error ? error.message : "Unknown error",
+      variant: "destructive",
+    });
+  }, []);
+
+  // Save to localStorage when not using file system. Secrets are encrypted first; while locked
+  // they keep their last saved ciphertext. A save that finishes after a newer one started is dropped
+  useEffect(() => {
+    if (usingFileSystem) return;
+    let cancelled = false;
+    const saved = loadFromLocalStorage<PostmanCollection[]>('postman-collections', []);
+    Promise.all(collections.map(c => sealCollectionForSave(c, secretVault, saved.find(s => s.info._postman_id === c.info._postman_id))))
+      .then(results => {
+        if (cancelled) return;
+        if (results.some(result => result.locked)) promptForLockedSecrets();
+        saveToLocalStorage('postman-collections', results.map(result => result.sealed));
+      })
+      .catch(error => {
+        if (!cancelled) reportSaveError(error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [collections, usingFileSystem, secretVault, promptForLockedSecrets, reportSaveError]);
+
+  useEffect(() => {
+    if (usingFileSystem) return;
+    let cancelled = false;
+    const saved = loadFromLocalStorage<PostmanEnvironment[]>('postman-environments', []);
+    Promise.all(environments.map(e => sealEnvironmentForSave(e, secretVault, saved.find(s => s.id === e.id))))
+      .then(results => {
+        if (cancelled) return;
+        if (results.some(result => result.locked)) promptForLockedSecrets();
+        saveToLocalStorage('postman-environments', results.map(result => result.sealed));
+      })
+      .catch(error => {
+        if (!cancelled) reportSaveError(error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [environments, usingFileSystem, secretVault, promptForLockedSecrets, reportSaveError]);
+
+  useEffect(() => {
+    saveToLocalStorage('postman-active-environment', activeEnvironmentId);
+  }, [activeEnvironmentId]);
+
+  useEffect(() => {
+    saveToLocalStorage('postman-script-timeout', scriptTimeout);
+  }, [scriptTimeout]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const saved = loadFromLocalStorage<PostmanEnvironment | undefined>('postman-globals', undefined);
+    sealEnvironmentForSave(globals, secretVault, saved)
+      .then(({ sealed, locked }) => {
+        if (cancelled) return;
+        if (locked) promptForLockedSecrets();
+        saveToLocalStorage('postman-globals', sealed);
+      })
+      .catch(error => {
+        if (!cancelled) reportSaveError(error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [globals, secretVault, promptForLockedSecrets, reportSaveError]);
 
   // Auto-save to file system when collections change
   useEffect(() => {
     if (usingFileSystem && folderHandle && collections.length > 0) {
       collections.forEach(async (collection) => {
         try {
-          await saveCollectionToFolder(folderHandle, collection);
+          await saveCollectionToFolder(folderHandle, await sealCollectionSecrets(collection, secretVault));
         } catch (error) {
-          console.error('Failed to auto-save collection:', error);
+          if (!deferLockedSecrets(error)) console.error('Failed to auto-save collection:', error);
         }
       });
     }
-  }, [collections, folderHandle, usingFileSystem]);
+  }, [collections, folderHandle, usingFileSystem, secretVault, deferLockedSecrets]);
+
+  const hasSecrets = useMemo(
+    () => collections.some(collectionHasSecrets) || environments.some(environmentHasSecrets) || environmentHasSecrets(globals),
+    [collections, environments, globals]
+  );
+
+  // Ask for a passphrase the first time a secret is added so it can be encrypted at rest
+  useEffect(() => {
+    if (secretVault || passphraseMode || passphrasePromptShown.current) return;
+    if (loadFromLocalStorage<string | null>('postman-secrets-check', null)) return;
+
+    if (hasSecrets) {
+      passphrasePromptShown.current = true;
+      setPassphraseMode('create');
+    }
+  }, [hasSecrets, secretVault, passphraseMode]);
+
+  const handlePassphraseSubmit = async (passphrase: string) => {
+    const check = loadFromLocalStorage<string | null>('postman-secrets-check', null);
+    const vault = await openSecretVault(passphrase, check);
+    if (!check) {
+      saveToLocalStorage('postman-secrets-check', await createPassphraseCheck(vault));
+    }
+
+    const unsealedEnvironments = await Promise.all(environments.map(e => unsealEnvironmentSecrets(e, vault)));
+    setCollections(await Promise.all(collections.map(c => unsealCollectionSecrets(c, vault))));
+    setEnvironments(unsealedEnvironments);
+    setGlobals(await unsealEnvironmentSecrets(globals, vault));
+    setSecretVault(vault);
+    setPassphraseMode(null);
+
+    // Collections and globals are saved again once the vault is set; environment files are saved here
+    if (secretsUnsaved.current && usingFileSystem && folderHandle) {
+      for (const environment of unsealedEnvironments) {
+        await saveEnvironmentToFolder(folderHandle, await sealEnvironmentSecrets(environment, vault));
+      }
+    }
+    secretsUnsaved.current = false;
+
+    toast({
+      title: check ? "Secrets unlocked" : "Passphrase set",
+      description: "Secret variables are encrypted before they are saved",
+    });
+  };
+
+  const handlePassphraseSkip = () => {
+    setPassphraseMode(null);
+    if (secretsUnsaved.current) {
+      toast({
+        title: "Secrets not saved",
+        description: "Changes that include secret values are saved once you set or enter your passphrase",
+        variant: "destructive",
+      });
+    }
+  };
 
   const handleSelectFolder = async () => {
     try {
@@ -90,6 +330,7 @@ export function PostmanApp() {
         setFolderHandle(dirHandle);
         const loadedCollections = await loadCollectionsFromFolder(dirHandle);
         setCollections(loadedCollections);
+        setEnvironments(await loadEnvironmentsFromFolder(dirHandle));
         toast({
           title: "Folder selected",
           description: "Collections folder selected successfully",
@@ -104,45 +345,97 @@ export function PostmanApp() {
     }
   };
 
+  const addImportedCollection = async (collection: PostmanCollection) => {
+    if (usingFileSystem && folderHandle) {
+      // Import to file system, with secrets encrypted like every other save
+      try {
+        await saveCollectionToFolder(folderHandle, await sealCollectionSecrets(collection, secretVault));
+      } catch (error) {
+        if (!deferLockedSecrets(error)) throw error;
+      }
+      setCollections(prev => [...prev, collection]);
+      toast({
+        title: "Collection imported",
+        description: `Successfully imported "${collection.info.name}" to folder`,
+      });
+    } else {
+      // Fallback to memory
+      setCollections(prev => [...prev, collection]);
+      toast({
+        title: "Collection imported",
+        description: `Successfully imported "${collection.info.name}"`,
+      });
+    }
+  };
+
+  const addImportedEnvironment = async (environment: PostmanEnvironment) => {
+    setEnvironments(prev => [...prev.filter(e => e.id !== environment.id), environment]);
+    if (usingFileSystem && folderHandle) {
+      try {
+        await saveEnvironmentToFolder(folderHandle, await sealEnvironmentSecrets(environment, secretVault));
+      } catch (error) {
+        if (!deferLockedSecrets(error)) throw error;
+      }
+    }
+  };
+
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
     try {
-      if (usingFileSystem && folderHandle) {
-        // Import to file system
-        const collection = await importCollectionToFolder(folderHandle, file);
-        setCollections(prev => [...prev, collection]);
+      const text = await file.text();
+      const json = isHttpFileName(file.name) ? null : parseJsonOrYaml(text);
+      const fileType = detectPostmanFileType(json);
+
+      if (isHttpFileName(file.name)) {
+        await addImportedCollection(parseHttpFile(text, file.name));
+      } else if (isOpenApiDocument(json)) {
+        await addImportedCollection(convertOpenApiToCollection(json));
+      } else if (isInsomniaExport(json)) {
+        const imported = convertInsomniaExport(json);
+        for (const collection of imported.collections) {
+          await addImportedCollection(collection);
+        }
+        for (const environment of imported.environments) {
+          await addImportedEnvironment(environment);
+        }
+        const collectionCount = imported.collections.length;
+        const environmentCount = imported.environments.length;
+        toast({
+          title: "Insomnia export imported",
+          description: `Imported ${collectionCount} ${collectionCount === 1 ? 'collection' : 'collections'} and ${environmentCount} ${environmentCount === 1 ? 'environment' : 'environments'}`,
+        });
+      } else if (fileType === 'environment') {
+        const environment = parsePostmanEnvironment(json);
+        await addImportedEnvironment(environment);
         toast({
-          title: "Collection imported",
-          description: `Successfully imported "${collection.info.name}" to folder`,
+          title: "Environment imported",
+          description: `Successfully imported "${environment.name}"`,
+        });
+      } else if (fileType === 'globals') {
+        const imported = parsePostmanEnvironment(json);
+        // Imported globals overwrite existing keys and keep the rest
+        setGlobals(prev => ({
+          ...prev,
+          values: [
+            ...prev.values.filter(v => !imported.values.some(i => i.key === v.key)),
+            ...imported.values
+          ]
+        }));
+        toast({
+          title: "Globals imported",
+          description: `Successfully imported ${imported.values.length} global variables`,
         });
       } else {
-        // Fallback to memory
-        const reader = new FileReader();
-        reader.onload = (e) => {
-          try {
-            const json = JSON.parse(e.target?.result as string);
-            const collection = parsePostmanCollection(json);
-            setCollections(prev => [...prev, collection]);
-            toast({
-              title: "Collection imported",
-              description: `Successfully imported "${collection.info.name}"`,
-            });
-          } catch (error) {
-            toast({
-              title: "Import failed",
-              description: "Invalid Postman collection file",
-              variant: "destructive",
-            });
-          }
-        };
-        reader.readAsText(file);
+        await addImportedCollection(parsePostmanCollection(json));
       }
     } catch (error) {
       toast({
         title: "Import failed",
-        description: error instanceof Error ? error.message : "Failed to import collection",
+        description: error instanceof SyntaxError || error instanceof YAMLParseError
+          ? "Invalid Postman, OpenAPI or Insomnia file"
+          : error instanceof Error ? error.message : "Failed to import file",
         variant: "destructive",
       });
     }
@@ -150,6 +443,23 @@ export function PostmanApp() {
     event.target.value = '';
   };
 
+  // Imported requests go to the root of the open collection, or a new collection when none is open
+  const handleImportCurl = (item: PostmanItem) => {
+    const target = currentCollection || createNewCollection('cURL Imports');
+    const name = uniqueItemName(target.item, item.name);
+    const imported = { ...item, name };
+    const updatedCollection = { ...target, item: [...target.item, imported] };
+    setCollections(prev => prev.some(c => c.info._postman_id === target.info._postman_id)
+      ? prev.map(c => (c.info._postman_id === target.info._postman_id ? updatedCollection : c))
+      : [...prev, updatedCollection]);
+    handleRequestSelect(updatedCollection, imported, [name]);
+
+    toast({
+      title: "cURL imported",
+      description: `Added "${name}" to "${target.info.name}"`,
+    });
+  };
+
   const handleDeleteCollection = async (collection: PostmanCollection) => {
     if (!confirm(`Are you sure you want to delete "${collection.info.name}"?`)) return;
 
@@ -180,8 +490,111 @@ export function PostmanApp() {
     }
   };
 
-  const handleExport = (collection: PostmanCollection) => {
-    const json = exportCollection(collection);
+  const handleOpenHttpFile = async () => {
+    if (!checkFilePickerSupport()) {
+      // Without the File System Access API the file is imported but can't be saved back
+      fileInputRef.current?.click();
+      return;
+    }
+    try {
+      const fileHandle = await pickFile('HTTP request files', HTTP_FILE_EXTENSIONS);
+      if (!fileHandle) return;
+      const file = await fileHandle.getFile();
+      const collection = parseHttpFile(await file.text(), file.name);
+      httpFileHandles.current.set(collection.info._postman_id, fileHandle);
+      await addImportedCollection(collection);
+    } catch (error) {
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Failed to read HTTP file",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleImportBruno = async () => {
+    try {
+      const dirHandle = await pickDirectory('read');
+      if (!dirHandle) return;
+      const imported = await readBrunoCollection(dirHandle);
+      await addImportedCollection(imported.collection);
+      for (const environment of imported.environments) {
+        await addImportedEnvironment(environment);
+      }
+      if (imported.environments.length > 0) {
+        const count = imported.environments.length;
+        toast({
+          title: "Bruno collection imported",
+          description: `Imported "${imported.collection.info.name}" with ${count} ${count === 1 ? 'environment' : 'environments'}`,
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Failed to read Bruno collection",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Secret values are left out unless explicitly requested
+  const prepareCollectionExport = async (collection: PostmanCollection) => {
+    const includeSecrets = collectionHasSecrets(collection)
+      && confirm('Include secret variable values in the export?');
+    return includeSecrets ? collection : redactCollectionSecrets(collection);
+  };
+
+  const handleExportBruno = async (collection: PostmanCollection) => {
+    try {
+      const dirHandle = await pickDirectory('readwrite');
+      if (!dirHandle) return;
+      const dirName = await writeBrunoCollection(dirHandle, await prepareCollectionExport(collection));
+      toast({
+        title: "Collection exported",
+        description: `Saved "${collection.info.name}" as a Bruno collection in "${dirName}"`,
+      });
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Failed to write Bruno collection",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleExportHttpFile = async (collection: PostmanCollection) => {
+    const content = serializeHttpFile(await prepareCollectionExport(collection));
+    const fileHandle = httpFileHandles.current.get(collection.info._postman_id);
+    if (!fileHandle) {
+      const blob = new Blob([content], { type: 'text/plain' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${collection.info.name}.http`;
+      a.click();
+      URL.revokeObjectURL(url);
+      return;
+    }
+
+    try {
+      const writable = await fileHandle.createWritable();
+      await writable.write(content);
+      await writable.close();
+      toast({
+        title: "Collection saved",
+        description: `Saved "${collection.info.name}" to ${fileHandle.name}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Save failed",
+        description: error instanceof Error ? error.message : "Failed to write HTTP file",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleExport = async (collection: PostmanCollection) => {
+    const json = exportCollection(await prepareCollectionExport(collection));
     const blob = new Blob([json], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -191,6 +604,23 @@ export function PostmanApp() {
     URL.revokeObjectURL(url);
   };
 
+  const handleExportEnvironment = (environment: PostmanEnvironment) => {
+    const includeSecrets = environmentHasSecrets(environment)
+      && confirm('Include secret variable values in the export?');
+    const json = exportEnvironment(
+      includeSecrets ? environment : { ...environment, values: redactSecrets(environment.values) }
+    );
+    const blob = new Blob([json], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = environment._postman_variable_scope === 'globals'
+      ? 'workspace.postman_globals.json'
+      : `${environment.name}.postman_environment.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
   const handleCreateCollection = () => {
     const name = prompt('Enter collection name:');
     if (!name) return;
@@ -199,12 +629,137 @@ export function PostmanApp() {
     setCollections(prev => [...prev, newCollection]);
   };
 
+  const handleCreateEnvironment = async () => {
+    const name = prompt('Enter environment name:');
+    if (!name) return;
+
+    const newEnvironment = createNewEnvironment(name);
+    setEnvironments(prev => [...prev, newEnvironment]);
+    setActiveEnvironmentId(newEnvironment.id);
+
+    if (usingFileSystem && folderHandle) {
+      try {
+        await saveEnvironmentToFolder(folderHandle, await sealEnvironmentSecrets(newEnvironment, secretVault));
+      } catch (error) {
+        if (!deferLockedSecrets(error)) console.error('Failed to save environment:', error);
+      }
+    }
+  };
+
+  const handleUpdateEnvironment = async (environment: PostmanEnvironment) => {
+    const previous = environments.find(e => e.id === environment.id);
+    setEnvironments(prev => prev.map(e => (e.id === environment.id ? environment : e)));
+
+    if (usingFileSystem && folderHandle) {
+      try {
+        if (previous && previous.name !== environment.name) {
+          await deleteEnvironmentFromFolder(folderHandle, previous.name);
+        }
+        await saveEnvironmentToFolder(folderHandle, await sealEnvironmentSecrets(environment, secretVault));
+      } catch (error) {
+        if (!deferLockedSecrets(error)) console.error('Failed to save environment:', error);
+      }
+    }
+  };
+
+  const handleDeleteEnvironment = async (environment: PostmanEnvironment) => {
+    if (!confirm(`Are you sure you want to delete "${environment.name}"?`)) return;
+
+    try {
+      if (usingFileSystem && folderHandle) {
+        await deleteEnvironmentFromFolder(folderHandle, environment.name);
+      }
+
+      setEnvironments(prev => prev.filter(e => e.id !== environment.id));
+      if (activeEnvironmentId === environment.id) {
+        setActiveEnvironmentId(null);
+      }
+    } catch (error) {
+      toast({
+        title: "Delete failed",
+        description: error instanceof Error ? error.message : "Failed to delete environment",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getTargetVariables = (): PostmanVariable[] => {
+    if (!variablesTarget) return [];
+    const collection = collections.find(c => c.info._postman_id === variablesTarget.collectionId);
+    if (!collection) return [];
+    if (variablesTarget.folderPath.length === 0) return collection.variable || [];
+    return findItemByPath(collection, variablesTarget.folderPath)?.variable || [];
+  };
+
+  const handleVariablesChange = (variables: PostmanVariable[]) => {
+    if (!variablesTarget) return;
+
+    const updatedCollections = collections.map(collection => {
+      if (collection.info._postman_id === variablesTarget.collectionId) {
+        const updatedCollection = { ...collection };
+        if (variablesTarget.folderPath.length === 0) {
+          updatedCollection.variable = variables;
+        } else {
+          const folder = findItemByPath(updatedCollection, variablesTarget.folderPath);
+          if (folder && folder.item) {
+            folder.variable = variables;
+          }
+        }
+        return updatedCollection;
+      }
+      return collection;
+    });
+
+    setCollections(updatedCollections);
+    if (activeCollection?.info._postman_id === variablesTarget.collectionId) {
+      setActiveCollection(updatedCollections.find(c => c.info._postman_id === variablesTarget.collectionId) || null);
+    }
+  };
+
+  const getTargetSettings = (): FolderSettings => {
+    if (!settingsTarget) return {};
+    const collection = collections.find(c => c.info._postman_id === settingsTarget.collectionId);
+    const target = collection && (settingsTarget.folderPath.length === 0
+      ? collection
+      : findItemByPath(collection, settingsTarget.folderPath));
+    return target ? { header: target.header, auth: target.auth, event: target.event } : {};
+  };
+
+  const handleSettingsChange = (settings: FolderSettings) => {
+    if (!settingsTarget) return;
+
+    const updatedCollections = collections.map(collection => {
+      if (collection.info._postman_id === settingsTarget.collectionId) {
+        const updatedCollection = { ...collection };
+        const target = settingsTarget.folderPath.length === 0
+          ? updatedCollection
+          : findItemByPath(updatedCollection, settingsTarget.folderPath);
+        if (target) {
+          target.header = settings.header;
+          target.auth = settings.auth;
+          target.event = settings.event;
+          if (!settings.auth) delete target.auth;
+        }
+        return updatedCollection;
+      }
+      return collection;
+    });
+
+    setCollections(updatedCollections);
+    if (activeCollection?.info._postman_id === settingsTarget.collectionId) {
+      setActiveCollection(updatedCollections.find(c => c.info._postman_id === settingsTarget.collectionId) || null);
+    }
+  };
+
   const handleRequestSelect = (collection: PostmanCollection, item: PostmanItem, path: string[]) => {
     if (item.request) {
       setActiveCollection(collection);
       setActiveRequest(item.request);
       setActiveRequestPath(path);
       setResponse(null);
+      setTestResults(undefined);
+      setScriptLogs([]);
+      setRunnerTarget(null);
     }
   };
 
@@ -228,14 +783,80 @@ export function PostmanApp() {
     setActiveCollection(updatedCollections.find(c => c.info._postman_id === activeCollection.info._postman_id) || null);
   };
 
+  const handleEventsChange = (events: PostmanEvent[]) => {
+    if (!activeCollection || !activeRequestPath.length) return;
+
+    setCollections(collections.map(collection => {
+      if (collection.info._postman_id === activeCollection.info._postman_id) {
+        const updatedCollection = { ...collection };
+        const item = findItemByPath(updatedCollection, activeRequestPath);
+        if (item && item.request) {
+          item.event = events;
+        }
+        return updatedCollection;
+      }
+      return collection;
+    }));
+  };
+
+  // Persist variables that a script set or unset back to their environment, globals or collection
+  const applyScriptVariableChanges = (before: VariableScopes, after: VariableScopes) => {
+    const changed = (scope: keyof VariableScopes) => JSON.stringify(before[scope] || {}) !== JSON.stringify(after[scope] || {});
+
+    if (activeEnvironment && changed('environment')) {
+      handleUpdateEnvironment({
+        ...activeEnvironment,
+        values: applyVariableChanges(activeEnvironment.values, before.environment, after.environment)
+      });
+    }
+    if (changed('global')) {
+      setGlobals(prev => ({
+        ...prev,
+        values: applyVariableChanges(prev.values, before.global, after.global)
+      }));
+    }
+    if (activeCollection && changed('collection')) {
+      setCollections(prev => prev.map(collection =>
+        collection.info._postman_id === activeCollection.info._postman_id
+          ? { ...collection, variable: applyVariableChanges(collection.variable, before.collection, after.collection) }
+          : collection
+      ));
+    }
+  };
+
   const handleSendRequest = async () => {
-    if (!activeRequest) return;
+    if (!activeRequest || !currentCollection) return;
 
     setIsLoading(true);
     setResponse(null);
+    setTestResults(undefined);
+    setScriptLogs([]);
 
+    let scopes = variableScopes;
+    const logs: ScriptLog[] = [];
     try {
-      const result = await executeRequest(activeRequest);
+      const outcome = await runRequest(currentCollection, activeRequestPath, activeRequest, scopes, {
+        runScript,
+        scriptTimeout,
+      });
+      logs.push(...outcome.logs);
+      scopes = outcome.scopes;
+      if (!outcome.response && !secretVault && containsEncryptedValue(outcome.request)) {
+        setPassphraseMode('unlock');
+      }
+      if (!outcome.response) {
+        throw new Error(outcome.error);
+      }
+      outcome.testErrors.forEach(error => toast({
+        title: "Test script error",
+        description: error,
+        variant: "destructive",
+      }));
+      if (getInheritedScripts(currentCollection, activeRequestPath, 'test').length > 0) {
+        setTestResults(outcome.tests);
+      }
+
+      const result = outcome.response;
       setResponse(result);
       
       if (result.status >= 200 && result.status < 300) {
@@ -251,10 +872,33 @@ export function PostmanApp() {
         variant: "destructive",
       });
     } finally {
+      applyScriptVariableChanges(variableScopes, scopes);
+      setScriptLogs(logs);
       setIsLoading(false);
     }
   };
 
+  // Keep variable changes made by scripts during a run, like a normal send does. Only what
+  // the run changed is applied, so edits made while it was running are kept
+  const handleRunnerComplete = (before: RunnerVariables, after: RunnerVariables) => {
+    const applyRunChanges = (values: PostmanVariable[] | undefined, start?: PostmanVariable[], end?: PostmanVariable[]) =>
+      applyVariableChanges(values, toVariableMap(start), toVariableMap(end));
+
+    const environment = after.environment && environments.find(e => e.id === after.environment.id);
+    if (environment) {
+      const values = applyRunChanges(environment.values, before.environment?.values, after.environment.values);
+      if (JSON.stringify(values) !== JSON.stringify(environment.values)) {
+        handleUpdateEnvironment({ ...environment, values });
+      }
+    }
+    setGlobals(prev => ({ ...prev, values: applyRunChanges(prev.values, before.globals.values, after.globals.values) }));
+    setCollections(prev => prev.map(c =>
+      c.info._postman_id === after.collection.info._postman_id
+        ? { ...c, variable: applyRunChanges(c.variable, before.collection.variable, after.collection.variable) }
+        : c
+    ));
+  };
+
   const handleAddRequest = (collection: PostmanCollection, folderPath?: string[]) => {
     const name = prompt('Enter request name:');
     if (!name) return;
@@ -310,126 +954,283 @@ export function PostmanApp() {
   };
 
   return (
-    <div className="h-screen bg-background text-foreground flex flex-col">
-      {/* Header */}
-      <div className="h-14 border-b border-border flex items-center justify-between px-4">
-        <div className="flex items-center gap-4">
-          <h1 className="text-xl font-bold bg-gradient-to-r from-primary to-primary-glow bg-clip-text text-transparent">
-            Postman Clone
-          </h1>
-          <Separator orientation="vertical" className="h-6" />
-          <div className="flex items-center gap-2">
-            {usingFileSystem && !folderHandle && (
-              <Button variant="outline" size="sm" onClick={handleSelectFolder}>
-                <Folder className="h-4 w-4 mr-2" />
-                Select Folder
-              </Button>
-            )}
+    <VariableScopesContext.Provider value={variableContext}>
+      <div className="h-screen bg-background text-foreground flex flex-col">
+        {/* Header */}
+        <div className="h-14 border-b border-border flex items-center justify-between px-4">
+          <div className="flex items-center gap-4">
+            <h1 className="text-xl font-bold bg-gradient-to-r from-primary to-primary-glow bg-clip-text text-transparent">
+              Postman Clone
+            </h1>
+            <Separator orientation="vertical" className="h-6" />
+            <div className="flex items-center gap-2">
+              {usingFileSystem && !folderHandle && (
+                <Button variant="outline" size="sm" onClick={handleSelectFolder}>
+                  <Folder className="h-4 w-4 mr-2" />
+                  Select Folder
+                </Button>
+              )}
             
-            <Button variant="outline" size="sm" onClick={handleCreateCollection}>
-              <Plus className="h-4 w-4 mr-2" />
-              New Collection
-            </Button>
-            
-            <label htmlFor="file-upload">
-              <Button variant="outline" size="sm" asChild>
-                <span>
-                  <Upload className="h-4 w-4 mr-2" />
-                  Import
-                </span>
+              <Button variant="outline" size="sm" onClick={handleCreateCollection}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Collection
               </Button>
-            </label>
-            <input
-              id="file-upload"
-              type="file"
-              accept=".json"
-              onChange={handleFileUpload}
-              className="hidden"
-            />
+            
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm">
+                    <Upload className="h-4 w-4 mr-2" />
+                    Import
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start">
+                  <DropdownMenuItem onClick={() => fileInputRef.current?.click()}>
+                    <FileText className="h-4 w-4 mr-2" />
+                    Postman, OpenAPI or Insomnia file
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setCurlImportOpen(true)}>
+                    <Terminal className="h-4 w-4 mr-2" />
+                    cURL command
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setHarImportOpen(true)}>
+                    <Globe className="h-4 w-4 mr-2" />
+                    HAR file
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setGraphqlImportOpen(true)}>
+                    <Network className="h-4 w-4 mr-2" />
+                    GraphQL schema
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={handleOpenHttpFile}>
+                    <FileCode className="h-4 w-4 mr-2" />
+                    HTTP file (.http)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={handleImportBruno}>
+                    <Folder className="h-4 w-4 mr-2" />
+                    Bruno collection folder
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <input
+                ref={fileInputRef}
+                id="file-upload"
+                type="file"
+                accept=".json,.yaml,.yml,.http,.rest"
+                onChange={handleFileUpload}
+                className="hidden"
+              />
 
-            {activeCollection && (
-              <Button 
-                variant="outline" 
-                size="sm" 
-                onClick={() => handleExport(activeCollection)}
-              >
-                <Download className="h-4 w-4 mr-2" />
-                Export
-              </Button>
-            )}
+              {currentCollection && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" size="sm">
+                      <Download className="h-4 w-4 mr-2" />
+                      Export
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="start">
+                    <DropdownMenuItem onClick={() => handleExport(currentCollection)}>
+                      <FileText className="h-4 w-4 mr-2" />
+                      Postman collection
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleExportBruno(currentCollection)}>
+                      <Folder className="h-4 w-4 mr-2" />
+                      Bruno collection folder
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleExportHttpFile(currentCollection)}>
+                      <FileCode className="h-4 w-4 mr-2" />
+                      {httpFileHandles.current.has(currentCollection.info._postman_id)
+                        ? `Save to ${httpFileHandles.current.get(currentCollection.info._postman_id).name}`
+                        : 'HTTP file (.http)'}
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+            </div>
           </div>
-        </div>
         
-        {/* Status indicator */}
-        <div className="flex items-center gap-2 text-sm text-muted-foreground">
-          {usingFileSystem && folderHandle && (
-            <span className="flex items-center gap-1">
-              <Folder className="h-3 w-3" />
-              File System
-            </span>
-          )}
-          {!usingFileSystem && (
-            <span className="flex items-center gap-1">
-              <FileText className="h-3 w-3" />
-              Memory Only
-            </span>
-          )}
+          <div className="flex items-center gap-4">
+            <EnvironmentSelector
+              environments={environments}
+              activeEnvironmentId={activeEnvironment?.id ?? null}
+              globals={globals}
+              onSelect={setActiveEnvironmentId}
+              onCreate={handleCreateEnvironment}
+              onUpdate={handleUpdateEnvironment}
+              onDelete={handleDeleteEnvironment}
+              onUpdateGlobals={setGlobals}
+              onExport={handleExportEnvironment}
+            />
+
+            {/* Status indicator */}
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              {!secretVault && hasSecrets && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setPassphraseMode(
+                    loadFromLocalStorage<string | null>('postman-secrets-check', null) ? 'unlock' : 'create'
+                  )}
+                >
+                  <KeyRound className="h-3 w-3 mr-1" />
+                  Secrets locked
+                </Button>
+              )}
+              {usingFileSystem && folderHandle && (
+                <span className="flex items-center gap-1">
+                  <Folder className="h-3 w-3" />
+                  File System
+                </span>
+              )}
+              {!usingFileSystem && (
+                <span className="flex items-center gap-1">
+                  <FileText className="h-3 w-3" />
+                  Memory Only
+                </span>
+              )}
+            </div>
+          </div>
         </div>
-      </div>
 
-      {/* Main Content */}
-      <div className="flex-1 overflow-hidden">
-        <ResizablePanelGroup direction="horizontal">
-          {/* Sidebar */}
-          <ResizablePanel defaultSize={25} minSize={20} maxSize={40}>
-            <div className="h-full border-r border-border bg-sidebar">
-              <div className="p-4 border-b border-border">
-                <h2 className="font-semibold text-sidebar-foreground">Collections</h2>
-              </div>
-              <div className="overflow-auto">
-                <CollectionTree
-                  collections={collections}
-                  activeRequest={activeRequestPath.join('/')}
-                  onRequestSelect={handleRequestSelect}
-                  onAddRequest={handleAddRequest}
-                  onAddFolder={handleAddFolder}
-                  onDeleteCollection={handleDeleteCollection}
-                />
+        {/* Main Content */}
+        <div className="flex-1 overflow-hidden">
+          <ResizablePanelGroup direction="horizontal">
+            {/* Sidebar */}
+            <ResizablePanel defaultSize={25} minSize={20} maxSize={40}>
+              <div className="h-full border-r border-border bg-sidebar">
+                <div className="p-4 border-b border-border">
+                  <h2 className="font-semibold text-sidebar-foreground">Collections</h2>
+                </div>
+                <div className="overflow-auto">
+                  <CollectionTree
+                    collections={collections}
+                    activeRequest={activeRequestPath.join('/')}
+                    onRequestSelect={handleRequestSelect}
+                    onAddRequest={handleAddRequest}
+                    onAddFolder={handleAddFolder}
+                    onDeleteCollection={handleDeleteCollection}
+                    onEditVariables={(collection, folderPath) => setVariablesTarget({
+                      collectionId: collection.info._postman_id,
+                      folderPath: folderPath || []
+                    })}
+                    onEditSettings={(collection, folderPath) => setSettingsTarget({
+                      collectionId: collection.info._postman_id,
+                      folderPath: folderPath || []
+                    })}
+                    onRunCollection={(collection, folderPath) => setRunnerTarget({
+                      collectionId: collection.info._postman_id,
+                      folderPath: folderPath || []
+                    })}
+                  />
+                </div>
               </div>
-            </div>
-          </ResizablePanel>
-
-          <ResizableHandle />
-
-          {/* Main Panel */}
-          <ResizablePanel defaultSize={75}>
-            <ResizablePanelGroup direction="vertical">
-              {/* Request Editor */}
-              <ResizablePanel defaultSize={50} minSize={30}>
-                <RequestEditor
-                  request={activeRequest}
-                  onRequestChange={handleRequestChange}
-                  onSendRequest={handleSendRequest}
-                  isLoading={isLoading}
+            </ResizablePanel>
+
+            <ResizableHandle />
+
+            {/* Main Panel */}
+            <ResizablePanel defaultSize={75}>
+              {runnerTarget && runnerCollection ? (
+                <CollectionRunner
+                  key={`${runnerTarget.collectionId}/${runnerTarget.folderPath.join('/')}`}
+                  collection={runnerCollection}
+                  folderPath={runnerTarget.folderPath}
+                  environment={activeEnvironment}
+                  globals={globals}
+                  scriptTimeout={scriptTimeout}
+                  onComplete={handleRunnerComplete}
+                  onClose={() => setRunnerTarget(null)}
                 />
-              </ResizablePanel>
+              ) : (
+                <ResizablePanelGroup direction="vertical">
+                  {/* Request Editor */}
+                  <ResizablePanel defaultSize={50} minSize={30}>
+                    <RequestEditor
+                      request={activeRequest}
+                      onRequestChange={handleRequestChange}
+                      onSendRequest={handleSendRequest}
+                      isLoading={isLoading}
+                      events={activeItem?.event}
+                      onEventsChange={handleEventsChange}
+                      scriptTimeout={scriptTimeout}
+                      onScriptTimeoutChange={setScriptTimeout}
+                    />
+                  </ResizablePanel>
 
-              <ResizableHandle />
+                  <ResizableHandle />
 
-              {/* Response Viewer */}
-              <ResizablePanel defaultSize={50} minSize={30}>
-                <div className="border-t border-border h-full">
-                  <ResponseViewer response={response} isLoading={isLoading} />
-                </div>
-              </ResizablePanel>
-            </ResizablePanelGroup>
-          </ResizablePanel>
-        </ResizablePanelGroup>
+                  {/* Response Viewer */}
+                  <ResizablePanel defaultSize={50} minSize={30}>
+                    <div className="border-t border-border h-full">
+                      <ResponseViewer
+                        response={response}
+                        isLoading={isLoading}
+                        testResults={testResults}
+                        logs={scriptLogs}
+                      />
+                    </div>
+                  </ResizablePanel>
+                </ResizablePanelGroup>
+              )}
+            </ResizablePanel>
+          </ResizablePanelGroup>
+        </div>
+
+        <VariablesDialog
+          open={!!variablesTarget}
+          onOpenChange={(open) => !open && setVariablesTarget(null)}
+          title={variablesTarget?.folderPath.length ? `Folder variables: ${variablesTarget.folderPath.join(' / ')}` : 'Collection variables'}
+          description="Environment variables take precedence over these; folder variables override collection variables."
+          variables={getTargetVariables()}
+          onChange={handleVariablesChange}
+        />
+
+        <FolderSettingsDialog
+          key={settingsTarget ? `${settingsTarget.collectionId}/${settingsTarget.folderPath.join('/')}` : 'closed'}
+          open={!!settingsTarget}
+          onOpenChange={(open) => !open && setSettingsTarget(null)}
+          title={settingsTarget?.folderPath.length ? `Folder settings: ${settingsTarget.folderPath.join(' / ')}` : 'Collection settings'}
+          isFolder={!!settingsTarget?.folderPath.length}
+          settings={getTargetSettings()}
+          onChange={handleSettingsChange}
+        />
+
+        <CurlImportDialog
+          open={curlImportOpen}
+          onOpenChange={setCurlImportOpen}
+          onImport={handleImportCurl}
+        />
+
+        <HarImportDialog
+          open={harImportOpen}
+          onOpenChange={setHarImportOpen}
+          onImport={addImportedCollection}
+        />
+
+        <GraphqlImportDialog
+          open={graphqlImportOpen}
+          onOpenChange={setGraphqlImportOpen}
+          onImport={addImportedCollection}
+        />
+
+        <PassphraseDialog
+          mode={passphraseMode}
+          onSubmit={handlePassphraseSubmit}
+          onSkip={handlePassphraseSkip}
+        />
       </div>
-    </div>
+    </VariableScopesContext.Provider>
   );
 }
 
+function createGlobals(): PostmanEnvironment {
+  return {
+    id: 'globals',
+    name: 'Globals',
+    values: [],
+    _postman_variable_scope: 'globals'
+  };
+}
+
 function createSampleCollection(): PostmanCollection {
   return {
     info: {
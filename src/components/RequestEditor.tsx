@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { PostmanRequest, HttpMethod, KeyValuePair } from '@/types/postman';
+import { PostmanAuth, PostmanBody, PostmanRequest, PostmanEvent, HttpMethod, KeyValuePair } from '@/types/postman';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
@@ -7,6 +7,13 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Label } from '@/components/ui/label';
 import { KeyValueEditor } from './KeyValueEditor';
+import { AuthEditor } from './AuthEditor';
+import { DynamicVariablesPopover } from './DynamicVariablesPopover';
+import { VariableInput, VariableTextarea } from './VariableInput';
+import { getEventScript, setEventScript } from '@/utils/postmanUtils';
+import { syncPathVariables } from '@/utils/variableUtils';
+import { isCurlCommand, parseCurlCommand } from '@/utils/curlImport';
+import { toast } from '@/hooks/use-toast';
 import { Send, Play } from 'lucide-react';
 
 interface RequestEditorProps {
@@ -14,12 +21,34 @@ interface RequestEditorProps {
   onRequestChange: (request: PostmanRequest) => void;
   onSendRequest: () => void;
   isLoading?: boolean;
+  events?: PostmanEvent[];
+  onEventsChange?: (events: PostmanEvent[]) => void;
+  scriptTimeout?: number;
+  onScriptTimeoutChange?: (timeout: number) => void;
 }
 
 const httpMethods: HttpMethod[] = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS'];
 
-export function RequestEditor({ request, onRequestChange, onSendRequest, isLoading }: RequestEditorProps) {
+const bodyModes: Array<{ value: PostmanBody['mode']; label: string }> = [
+  { value: 'raw', label: 'Raw' },
+  { value: 'urlencoded', label: 'x-www-form-urlencoded' },
+  { value: 'formdata', label: 'form-data' },
+  { value: 'graphql', label: 'GraphQL' },
+];
+
+export function RequestEditor({
+  request,
+  onRequestChange,
+  onSendRequest,
+  isLoading,
+  events,
+  onEventsChange,
+  scriptTimeout,
+  onScriptTimeoutChange,
+}: RequestEditorProps) {
   const [activeTab, setActiveTab] = useState('headers');
+  // Remounts the auth editor when a pasted cURL command replaces the whole request
+  const [importCount, setImportCount] = useState(0);
 
   if (!request) {
     return (
@@ -30,13 +59,42 @@ export function RequestEditor({ request, onRequestChange, onSendRequest, isLoadi
   }
 
   const urlString = typeof request.url === 'string' ? request.url : request.url?.raw || '';
+  const pathVariables = typeof request.url === 'string' ? [] : request.url?.variable || [];
 
   const updateMethod = (method: HttpMethod) => {
     onRequestChange({ ...request, method });
   };
 
+  // Path variables follow the ":name" segments typed into the URL
   const updateUrl = (url: string) => {
-    onRequestChange({ ...request, url });
+    const variable = syncPathVariables(url, pathVariables);
+    onRequestChange({ ...request, url: variable.length ? { raw: url, variable } : url });
+  };
+
+  const updatePathVariable = (key: string, value: string) => {
+    const variable = pathVariables.map(v => (v.key === key ? { ...v, value } : v));
+    onRequestChange({ ...request, url: { raw: urlString, variable } });
+  };
+
+  // Pasting a cURL command into the URL field imports the whole request
+  const handleUrlPaste = (e: React.ClipboardEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const text = e.clipboardData.getData('text');
+    if (!isCurlCommand(text)) return;
+    e.preventDefault();
+    try {
+      onRequestChange(parseCurlCommand(text));
+      setImportCount(count => count + 1);
+      toast({
+        title: "cURL imported",
+        description: "The request was filled in from the pasted command",
+      });
+    } catch (error) {
+      toast({
+        title: "cURL import failed",
+        description: error instanceof Error ? error.message : "Could not parse the command",
+        variant: "destructive",
+      });
+    }
   };
 
   const updateHeaders = (pairs: KeyValuePair[]) => {
@@ -53,33 +111,83 @@ export function RequestEditor({ request, onRequestChange, onSendRequest, isLoadi
     onRequestChange({
       ...request,
       body: {
+        ...request.body,
         mode: 'raw',
         raw: body,
         options: {
           raw: {
-            language: 'json'
+            language: request.body?.options?.raw?.language || 'json'
           }
         }
       }
     });
   };
 
-  const updateAuth = (authType: string, config: any) => {
+  const updateBodyMode = (mode: PostmanBody['mode']) => {
+    onRequestChange({ ...request, body: { ...request.body, mode } });
+  };
+
+  const updateUrlencoded = (pairs: KeyValuePair[]) => {
+    onRequestChange({
+      ...request,
+      body: {
+        ...request.body,
+        mode: 'urlencoded',
+        urlencoded: pairs.map(pair => ({ key: pair.key, value: pair.value, disabled: !pair.enabled })),
+      },
+    });
+  };
+
+  // File fields can't be edited here, so they are kept as they are
+  const updateFormdata = (pairs: KeyValuePair[]) => {
     onRequestChange({
       ...request,
-      auth: {
-        type: authType as any,
-        [authType]: config
-      }
+      body: {
+        ...request.body,
+        mode: 'formdata',
+        formdata: [
+          ...pairs.map(pair => ({ key: pair.key, value: pair.value, type: 'text', disabled: !pair.enabled })),
+          ...fileFields,
+        ],
+      },
     });
   };
 
+  const updateGraphql = (part: 'query' | 'variables', value: string) => {
+    onRequestChange({
+      ...request,
+      body: {
+        ...request.body,
+        mode: 'graphql',
+        graphql: { query: '', ...request.body?.graphql, [part]: value },
+      },
+    });
+  };
+
+  const updateAuth = (auth?: PostmanAuth) => {
+    const { auth: _previous, ...rest } = request;
+    onRequestChange(auth ? { ...rest, auth } : rest);
+  };
+
   const headerPairs: KeyValuePair[] = request.header?.map(h => ({
     key: h.key,
     value: h.value,
     enabled: !h.disabled
   })) || [];
 
+  const bodyMode = request.body?.mode || 'raw';
+  const urlencodedPairs: KeyValuePair[] = request.body?.urlencoded?.map(p => ({
+    key: p.key,
+    value: p.value,
+    enabled: !p.disabled
+  })) || [];
+  const formdataPairs: KeyValuePair[] = request.body?.formdata?.filter(p => p.type !== 'file').map(p => ({
+    key: p.key,
+    value: p.value,
+    enabled: !p.disabled
+  })) || [];
+  const fileFields = request.body?.formdata?.filter(p => p.type === 'file') || [];
+
   return (
     <div className="flex flex-col h-full">
       {/* Request Line */}
@@ -97,13 +205,15 @@ export function RequestEditor({ request, onRequestChange, onSendRequest, isLoadi
           </SelectContent>
         </Select>
 
-        <Input
+        <VariableInput
           value={urlString}
-          onChange={(e) => updateUrl(e.target.value)}
-          placeholder="Enter request URL"
-          className="flex-1"
+          onChange={updateUrl}
+          onPaste={handleUrlPaste}
+          placeholder="Enter request URL or paste a cURL command"
         />
 
+        <DynamicVariablesPopover />
+
         <Button 
           onClick={onSendRequest} 
           disabled={isLoading}
@@ -120,8 +230,17 @@ export function RequestEditor({ request, onRequestChange, onSendRequest, isLoadi
 
       {/* Request Configuration */}
       <div className="flex-1 overflow-hidden">
-        <Tabs value={activeTab} onValueChange={setActiveTab} className="h-full flex flex-col">
+        <Tabs
+          value={activeTab === 'path' && pathVariables.length === 0 ? 'headers' : activeTab}
+          onValueChange={setActiveTab}
+          className="h-full flex flex-col"
+        >
           <TabsList className="w-full justify-start border-b rounded-none h-12 bg-transparent">
+            {pathVariables.length > 0 && (
+              <TabsTrigger value="path" className="rounded-none border-b-2 border-transparent data-[state=active]:border-primary">
+                Path Variables
+              </TabsTrigger>
+            )}
             <TabsTrigger value="headers" className="rounded-none border-b-2 border-transparent data-[state=active]:border-primary">
               Headers
             </TabsTrigger>
@@ -131,9 +250,33 @@ export function RequestEditor({ request, onRequestChange, onSendRequest, isLoadi
             <TabsTrigger value="auth" className="rounded-none border-b-2 border-transparent data-[state=active]:border-primary">
               Authorization
             </TabsTrigger>
+            {onEventsChange && (
+              <TabsTrigger value="scripts" className="rounded-none border-b-2 border-transparent data-[state=active]:border-primary">
+                Scripts
+              </TabsTrigger>
+            )}
           </TabsList>
 
           <div className="flex-1 overflow-auto">
+            {pathVariables.length > 0 && (
+              <TabsContent value="path" className="p-4 m-0">
+                <div className="space-y-2">
+                  {pathVariables.map(variable => (
+                    <div key={variable.key} className="grid grid-cols-12 gap-2 items-center">
+                      <Label className="col-span-4 font-mono truncate">:{variable.key}</Label>
+                      <div className="col-span-8">
+                        <VariableInput
+                          value={variable.value}
+                          onChange={(value) => updatePathVariable(variable.key, value)}
+                          placeholder="Value"
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </TabsContent>
+            )}
+
             <TabsContent value="headers" className="p-4 m-0">
               <KeyValueEditor
                 pairs={headerPairs}
@@ -144,109 +287,142 @@ export function RequestEditor({ request, onRequestChange, onSendRequest, isLoadi
 
             <TabsContent value="body" className="p-4 m-0">
               <div className="space-y-4">
-                <div>
+                <div className="flex items-center gap-2">
                   <Label>Body</Label>
-                  <Textarea
+                  <Select value={bodyMode} onValueChange={(mode) => updateBodyMode(mode as PostmanBody['mode'])}>
+                    <SelectTrigger className="h-8 w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {bodyModes.map(mode => (
+                        <SelectItem key={mode.value} value={mode.value}>
+                          {mode.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {bodyMode === 'urlencoded' && (
+                  <KeyValueEditor
+                    pairs={urlencodedPairs}
+                    onChange={updateUrlencoded}
+                    placeholder={{ key: 'Key', value: 'Value' }}
+                  />
+                )}
+
+                {bodyMode === 'formdata' && (
+                  <>
+                    <KeyValueEditor
+                      pairs={formdataPairs}
+                      onChange={updateFormdata}
+                      placeholder={{ key: 'Field', value: 'Value' }}
+                    />
+                    {fileFields.length > 0 && (
+                      <div className="space-y-1 text-sm">
+                        {fileFields.map((field, index) => (
+                          <div key={index} className="font-mono text-muted-foreground">
+                            {field.key}: file {field.src || '(no path)'}
+                          </div>
+                        ))}
+                        <p className="text-xs text-muted-foreground">File fields are not sent from the browser.</p>
+                      </div>
+                    )}
+                  </>
+                )}
+
+                {bodyMode === 'graphql' && (
+                  <div className="space-y-4">
+                    <div>
+                      <Label>Query</Label>
+                      <VariableTextarea
+                        value={request.body?.graphql?.query || ''}
+                        onChange={(value) => updateGraphql('query', value)}
+                        placeholder="query { ... }"
+                        className="min-h-[240px] font-mono text-sm mt-2"
+                      />
+                    </div>
+                    <div>
+                      <Label>Variables</Label>
+                      <VariableTextarea
+                        value={request.body?.graphql?.variables || ''}
+                        onChange={(value) => updateGraphql('variables', value)}
+                        placeholder='{ "id": "1" }'
+                        className="min-h-[120px] font-mono text-sm mt-2"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {bodyMode !== 'urlencoded' && bodyMode !== 'formdata' && bodyMode !== 'graphql' && (
+                  <VariableTextarea
                     value={request.body?.raw || ''}
-                    onChange={(e) => updateBody(e.target.value)}
+                    onChange={updateBody}
                     placeholder="Enter raw body content (JSON, XML, etc.)"
                     className="min-h-[300px] font-mono text-sm"
                   />
-                </div>
+                )}
               </div>
             </TabsContent>
 
             <TabsContent value="auth" className="p-4 m-0">
-              <AuthEditor 
+              <AuthEditor
+                key={importCount}
                 auth={request.auth}
                 onAuthChange={updateAuth}
+                allowInherit
               />
             </TabsContent>
+
+            {onEventsChange && (
+              <TabsContent value="scripts" className="p-4 m-0">
+                <div className="space-y-4">
+                  <div>
+                    <Label>Pre-request Script</Label>
+                    <p className="text-xs text-muted-foreground mb-2">
+                      Runs before the request is sent. Use pm.environment, pm.variables and pm.request to prepare it.
+                    </p>
+                    <Textarea
+                      value={getEventScript(events, 'prerequest')}
+                      onChange={(e) => onEventsChange(setEventScript(events, 'prerequest', e.target.value))}
+                      placeholder="pm.request.headers.add({ key: 'X-Request-Id', value: pm.variables.replaceIn('{{$guid}}') });"
+                      className="min-h-[200px] font-mono text-sm"
+                      spellCheck={false}
+                    />
+                  </div>
+                  <div>
+                    <Label>Tests</Label>
+                    <p className="text-xs text-muted-foreground mb-2">
+                      Runs after the response arrives. Use pm.test, pm.expect and pm.response to write assertions.
+                    </p>
+                    <Textarea
+                      value={getEventScript(events, 'test')}
+                      onChange={(e) => onEventsChange(setEventScript(events, 'test', e.target.value))}
+                      placeholder="pm.test('Status code is 200', () => pm.response.to.have.status(200));"
+                      className="min-h-[200px] font-mono text-sm"
+                      spellCheck={false}
+                    />
+                  </div>
+                  {onScriptTimeoutChange && (
+                    <div className="flex items-center gap-2">
+                      <Label htmlFor="script-timeout" className="whitespace-nowrap">Script timeout (ms)</Label>
+                      <Input
+                        id="script-timeout"
+                        type="number"
+                        min={100}
+                        step={100}
+                        value={scriptTimeout}
+                        onChange={(e) => onScriptTimeoutChange(Math.max(100, Number(e.target.value) || 0))}
+                        className="h-8 w-32"
+                      />
+                    </div>
+                  )}
+                </div>
+              </TabsContent>
+            )}
           </div>
         </Tabs>
       </div>
     </div>
   );
 }
-
-interface AuthEditorProps {
-  auth?: any;
-  onAuthChange: (authType: string, config: any) => void;
-}
-
-function AuthEditor({ auth, onAuthChange }: AuthEditorProps) {
-  const [authType, setAuthType] = useState(auth?.type || 'noauth');
-  const [bearerToken, setBearerToken] = useState(
-    auth?.bearer?.find((item: any) => item.key === 'token')?.value || ''
-  );
-
-  const handleAuthTypeChange = (type: string) => {
-    setAuthType(type);
-    if (type === 'noauth') {
-      onAuthChange('noauth', []);
-    }
-  };
-
-  const handleBearerTokenChange = (token: string) => {
-    setBearerToken(token);
-    onAuthChange('bearer', [{ key: 'token', value: token, type: 'string' }]);
-  };
-
-  return (
-    <div className="space-y-4">
-      <div>
-        <Label>Type</Label>
-        <Select value={authType} onValueChange={handleAuthTypeChange}>
-          <SelectTrigger>
-            <SelectValue />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="noauth">No Auth</SelectItem>
-            <SelectItem value="bearer">Bearer Token</SelectItem>
-            <SelectItem value="oauth2">OAuth 2.0</SelectItem>
-          </SelectContent>
-        </Select>
-      </div>
-
-      {authType === 'bearer' && (
-        <div>
-          <Label>Token</Label>
-          <Input
-            value={bearerToken}
-            onChange={(e) => handleBearerTokenChange(e.target.value)}
-            placeholder="Enter bearer token"
-            type="password"
-          />
-        </div>
-      )}
-
-      {authType === 'oauth2' && (
-        <div className="space-y-4">
-          <div>
-            <Label>Grant Type</Label>
-            <Select defaultValue="client_credentials">
-              <SelectTrigger>
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="client_credentials">Client Credentials</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
-          <div>
-            <Label>Access Token URL</Label>
-            <Input placeholder="https://example.com/oauth/token" />
-          </div>
-          <div>
-            <Label>Client ID</Label>
-            <Input placeholder="Your client ID" />
-          </div>
-          <div>
-            <Label>Client Secret</Label>
-            <Input type="password" placeholder="Your client secret" />
-          </div>
-        </div>
-      )}
-    </div>
-  );
-}
\ No newline at end of file
@@ -1,17 +1,40 @@
 import React, { useState } from 'react';
-import { RequestResponse } from '@/types/postman';
+import { RequestResponse, ScriptLog, TestResult } from '@/types/postman';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Copy, Check } from 'lucide-react';
+import { Copy, Check, CircleCheck, CircleX, CircleMinus } from 'lucide-react';
+import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 
 interface ResponseViewerProps {
   response: RequestResponse | null;
   isLoading?: boolean;
+  testResults?: TestResult[];
+  logs?: ScriptLog[];
 }
 
-export function ResponseViewer({ response, isLoading }: ResponseViewerProps) {
+const LOG_LEVEL_COLORS: Record<ScriptLog['level'], string> = {
+  log: 'text-foreground',
+  info: 'text-status-redirect',
+  warn: 'text-status-client-error',
+  error: 'text-status-server-error',
+};
+
+function ScriptConsole({ logs }: { logs: ScriptLog[] }) {
+  return (
+    <div className="space-y-1 font-mono text-sm">
+      {logs.map((log, index) => (
+        <div key={index} className="flex gap-3 px-2 py-1 rounded border">
+          <span className="w-12 shrink-0 text-xs uppercase text-muted-foreground mt-0.5">{log.level}</span>
+          <span className={cn('whitespace-pre-wrap break-all', LOG_LEVEL_COLORS[log.level])}>{log.message}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function ResponseViewer({ response, isLoading, testResults, logs = [] }: ResponseViewerProps) {
   const [copied, setCopied] = useState(false);
   const [activeTab, setActiveTab] = useState('pretty');
 
@@ -53,6 +76,8 @@ export function ResponseViewer({ response, isLoading }: ResponseViewerProps) {
     }
   };
 
+  const failedTests = testResults?.filter(t => !t.passed).length || 0;
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -65,6 +90,17 @@ export function ResponseViewer({ response, isLoading }: ResponseViewerProps) {
   }
 
   if (!response) {
+    // Pre-request script output is still useful when the request never went out
+    if (logs.length > 0) {
+      return (
+        <ScrollArea className="h-full">
+          <div className="p-4 space-y-2">
+            <p className="text-sm font-medium">Console</p>
+            <ScriptConsole logs={logs} />
+          </div>
+        </ScrollArea>
+      );
+    }
     return (
       <div className="flex items-center justify-center h-full text-muted-foreground">
         Send a request to see the response
@@ -96,6 +132,20 @@ export function ResponseViewer({ response, isLoading }: ResponseViewerProps) {
             <span className="text-sm text-muted-foreground">Size:</span>
             <span className="text-sm font-mono">{formatBytes(response.size)}</span>
           </div>
+
+          {testResults && testResults.length > 0 && (
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground">Tests:</span>
+              <span
+                className={cn(
+                  'text-sm font-mono',
+                  failedTests > 0 ? 'text-status-server-error' : 'text-status-success'
+                )}
+              >
+                {testResults.length - failedTests}/{testResults.length}
+              </span>
+            </div>
+          )}
         </div>
 
         <Button
@@ -121,6 +171,16 @@ export function ResponseViewer({ response, isLoading }: ResponseViewerProps) {
             <TabsTrigger value="headers" className="rounded-none border-b-2 border-transparent data-[state=active]:border-primary">
               Headers
             </TabsTrigger>
+            {testResults && (
+              <TabsTrigger value="tests" className="rounded-none border-b-2 border-transparent data-[state=active]:border-primary">
+                Tests ({testResults.length - failedTests}/{testResults.length})
+              </TabsTrigger>
+            )}
+            {logs.length > 0 && (
+              <TabsTrigger value="console" className="rounded-none border-b-2 border-transparent data-[state=active]:border-primary">
+                Console ({logs.length})
+              </TabsTrigger>
+            )}
           </TabsList>
 
           <div className="flex-1 overflow-hidden">
@@ -152,6 +212,46 @@ export function ResponseViewer({ response, isLoading }: ResponseViewerProps) {
                 </div>
               </ScrollArea>
             </TabsContent>
+
+            {testResults && (
+              <TabsContent value="tests" className="p-4 m-0 h-full">
+                <ScrollArea className="h-full">
+                  <div className="space-y-2">
+                    {testResults.length === 0 && (
+                      <p className="text-sm text-muted-foreground">No tests ran for this request</p>
+                    )}
+                    {testResults.map((test, index) => (
+                      <div key={index} className="flex items-start gap-3 p-2 rounded border">
+                        {test.skipped ? (
+                          <CircleMinus className="h-4 w-4 mt-0.5 text-muted-foreground" />
+                        ) : test.passed ? (
+                          <CircleCheck className="h-4 w-4 mt-0.5 text-status-success" />
+                        ) : (
+                          <CircleX className="h-4 w-4 mt-0.5 text-status-server-error" />
+                        )}
+                        <div className="min-w-0">
+                          <div className="text-sm font-medium">{test.name}</div>
+                          {test.error && (
+                            <div className="text-sm text-muted-foreground font-mono break-all">{test.error}</div>
+                          )}
+                        </div>
+                        <Badge variant={test.skipped ? 'outline' : test.passed ? 'default' : 'destructive'} className="ml-auto">
+                          {test.skipped ? 'SKIPPED' : test.passed ? 'PASS' : 'FAIL'}
+                        </Badge>
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </TabsContent>
+            )}
+
+            {logs.length > 0 && (
+              <TabsContent value="console" className="p-4 m-0 h-full">
+                <ScrollArea className="h-full">
+                  <ScriptConsole logs={logs} />
+                </ScrollArea>
+              </TabsContent>
+            )}
           </div>
         </Tabs>
       </div>
@@ -0,0 +1,254 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { useVariableScopes } from '@/hooks/use-variable-scopes';
+import { flattenVariableScopes, lookupVariable, tokenizeVariables } from '@/utils/variableUtils';
+import { DYNAMIC_VARIABLES, isDynamicVariable } from '@/utils/dynamicVariables';
+import { cn } from '@/lib/utils';
+
+interface VariableFieldProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  className?: string;
+  onPaste?: (e: React.ClipboardEvent<HTMLInputElement | HTMLTextAreaElement>) => void;
+}
+
+interface HoveredVariable {
+  name: string;
+  left: number;
+  top: number;
+}
+
+interface Suggestions {
+  start: number;
+  end: number;
+  items: string[];
+  index: number;
+}
+
+const MAX_SUGGESTIONS = 10;
+const SCOPE_LABELS: Record<string, string> = {
+  local: 'Local',
+  data: 'Data',
+  environment: 'Environment',
+  folder: 'Folder',
+  collection: 'Collection',
+  global: 'Global',
+};
+
+function VariableField({ value, onChange, placeholder, className, onPaste, multiline }: VariableFieldProps & { multiline?: boolean }) {
+  const { scopes, secrets } = useVariableScopes();
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const backdropRef = useRef<HTMLDivElement>(null);
+  const fieldRef = useRef<HTMLInputElement & HTMLTextAreaElement>(null);
+  const [hovered, setHovered] = useState<HoveredVariable | null>(null);
+  const [suggestions, setSuggestions] = useState<Suggestions | null>(null);
+
+  const variableNames = useMemo(() => [
+    ...Object.keys(flattenVariableScopes(scopes)).sort(),
+    ...DYNAMIC_VARIABLES.map(v => v.name),
+  ], [scopes]);
+
+  const segments = tokenizeVariables(value || '');
+
+  const isResolved = (name: string) => !!lookupVariable(name, scopes) || isDynamicVariable(name);
+
+  const syncScroll = () => {
+    if (backdropRef.current && fieldRef.current) {
+      backdropRef.current.scrollLeft = fieldRef.current.scrollLeft;
+      backdropRef.current.scrollTop = fieldRef.current.scrollTop;
+    }
+  };
+
+  const updateSuggestions = (text: string, caret: number) => {
+    // Offer completions while the caret sits inside an unfinished {{
+    const match = /\{\{([^{}\s]*)$/.exec(text.slice(0, caret));
+    if (!match) {
+      setSuggestions(null);
+      return;
+    }
+    const query = match[1].toLowerCase();
+    const items = variableNames.filter(name => name.toLowerCase().includes(query)).slice(0, MAX_SUGGESTIONS);
+    setSuggestions(items.length ? { start: caret - match[1].length, end: caret, items, index: 0 } : null);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    onChange(e.target.value);
+    updateSuggestions(e.target.value, e.target.selectionStart ?? e.target.value.length);
+  };
+
+  const acceptSuggestion = (name: string) => {
+    if (!suggestions) return;
+    const after = value.slice(suggestions.end);
+    const closing = after.startsWith('}}') ? '' : '}}';
+    const newValue = value.slice(0, suggestions.start) + name + closing + after;
+    const caret = suggestions.start + name.length + 2;
+    onChange(newValue);
+    setSuggestions(null);
+    requestAnimationFrame(() => {
+      fieldRef.current?.focus();
+      fieldRef.current?.setSelectionRange(caret, caret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!suggestions) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setSuggestions({
+        ...suggestions,
+        index: (suggestions.index + step + suggestions.items.length) % suggestions.items.length,
+      });
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      acceptSuggestion(suggestions.items[suggestions.index]);
+    } else if (e.key === 'Escape') {
+      setSuggestions(null);
+    }
+  };
+
+  // The highlighted backdrop sits underneath the field, so find the variable under the pointer by hit-testing
+  const handleMouseMove = (e: React.MouseEvent) => {
+    const target = document.elementsFromPoint(e.clientX, e.clientY).find(
+      el => el instanceof HTMLElement && el.dataset.variable && backdropRef.current?.contains(el)
+    ) as HTMLElement | undefined;
+
+    if (!target || !wrapperRef.current) {
+      setHovered(null);
+      return;
+    }
+    if (hovered?.name === target.dataset.variable) return;
+
+    const wrapperRect = wrapperRef.current.getBoundingClientRect();
+    const targetRect = target.getBoundingClientRect();
+    setHovered({
+      name: target.dataset.variable,
+      left: targetRect.left - wrapperRect.left,
+      top: targetRect.bottom - wrapperRect.top + 4,
+    });
+  };
+
+  const renderHoverCard = () => {
+    if (!hovered) return null;
+    const match = lookupVariable(hovered.name, scopes);
+    const dynamic = !match && isDynamicVariable(hovered.name);
+
+    return (
+      <div
+        className="absolute z-50 min-w-48 max-w-sm rounded-md border bg-popover p-2 text-xs text-popover-foreground shadow-md pointer-events-none"
+        style={{ left: hovered.left, top: hovered.top }}
+      >
+        <div className="font-mono font-medium">{hovered.name}</div>
+        {match ? (
+          <>
+            <div className="mt-1 font-mono break-all">
+              {secrets.has(hovered.name) ? '••••••••' : match.value || <span className="text-muted-foreground">(empty)</span>}
+            </div>
+            <div className="mt-1 text-muted-foreground">{SCOPE_LABELS[match.scope]}</div>
+          </>
+        ) : dynamic ? (
+          <div className="mt-1 text-muted-foreground">Dynamic variable, generated on every send</div>
+        ) : (
+          <div className="mt-1 text-destructive">Unresolved variable</div>
+        )}
+      </div>
+    );
+  };
+
+  const sharedClassName = cn(
+    'w-full rounded-md border px-3 py-2 text-sm',
+    multiline ? 'min-h-[80px] whitespace-pre-wrap break-words' : 'h-10 whitespace-pre',
+    className
+  );
+
+  const fieldProps = {
+    ref: fieldRef,
+    value,
+    placeholder,
+    onChange: handleChange,
+    onPaste,
+    onKeyDown: handleKeyDown,
+    onScroll: syncScroll,
+    onSelect: syncScroll,
+    onMouseMove: handleMouseMove,
+    onMouseLeave: () => setHovered(null),
+    onBlur: () => setSuggestions(null),
+    spellCheck: false,
+    className: cn(
+      sharedClassName,
+      'relative flex border-input bg-transparent text-transparent caret-foreground ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2'
+    ),
+  };
+
+  return (
+    <div ref={wrapperRef} className={cn('relative', multiline ? 'w-full' : 'flex-1')}>
+      <div
+        ref={backdropRef}
+        aria-hidden
+        className={cn(
+          sharedClassName,
+          'absolute inset-0 overflow-hidden border-transparent bg-background text-foreground',
+          !multiline && 'flex items-center h-full'
+        )}
+      >
+        {segments.map((segment, index) => segment.variable ? (
+          <span
+            key={index}
+            data-variable={segment.variable}
+            className={cn(
+              'rounded-sm',
+              isResolved(segment.variable)
+                ? 'text-status-success bg-status-success/10'
+                : 'text-destructive bg-destructive/10'
+            )}
+          >
+            {segment.text}
+          </span>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        ))}
+        {/* Keeps a trailing newline from collapsing so the backdrop stays aligned with the textarea */}
+        {multiline && '\n'}
+      </div>
+
+      {multiline ? <textarea {...fieldProps} /> : <input {...fieldProps} />}
+
+      {renderHoverCard()}
+
+      {suggestions && (
+        <div className="absolute left-0 top-full z-50 mt-1 w-64 rounded-md border bg-popover p-1 text-sm text-popover-foreground shadow-md">
+          {suggestions.items.map((name, index) => {
+            const match = lookupVariable(name, scopes);
+            return (
+              <div
+                key={name}
+                className={cn(
+                  'flex items-center justify-between gap-2 rounded-sm px-2 py-1 cursor-pointer',
+                  index === suggestions.index && 'bg-accent'
+                )}
+                // Prevent the field from blurring before the suggestion is applied
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  acceptSuggestion(name);
+                }}
+              >
+                <span className="font-mono truncate">{name}</span>
+                <span className="text-xs text-muted-foreground">
+                  {match ? SCOPE_LABELS[match.scope] : 'Dynamic'}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function VariableInput(props: VariableFieldProps) {
+  return <VariableField {...props} />;
+}
+
+export function VariableTextarea(props: VariableFieldProps) {
+  return <VariableField {...props} multiline />;
+}
@@ -0,0 +1,54 @@
+import React from 'react';
+import { PostmanVariable, KeyValuePair } from '@/types/postman';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { KeyValueEditor } from './KeyValueEditor';
+
+interface VariablesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description?: string;
+  variables: PostmanVariable[];
+  onChange: (variables: PostmanVariable[]) => void;
+}
+
+export function VariablesDialog({ open, onOpenChange, title, description, variables, onChange }: VariablesDialogProps) {
+  const pairs: KeyValuePair[] = variables.map(v => ({
+    key: v.key,
+    value: v.value == null ? '' : String(v.value),
+    enabled: !v.disabled,
+    secret: v.type === 'secret'
+  }));
+
+  const updateVariables = (newPairs: KeyValuePair[]) => {
+    onChange(newPairs.map((pair, index) => {
+      const { enabled, disabled, ...existing } = variables[index] || ({} as PostmanVariable);
+      return {
+        ...existing,
+        key: pair.key,
+        value: pair.value,
+        type: pair.secret ? 'secret' : existing.type === 'secret' ? 'default' : existing.type,
+        ...(pair.enabled ? {} : { disabled: true })
+      };
+    }));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          {description && <DialogDescription>{description}</DialogDescription>}
+        </DialogHeader>
+        <div className="max-h-[60vh] overflow-auto">
+          <KeyValueEditor
+            pairs={pairs}
+            onChange={updateVariables}
+            placeholder={{ key: 'Variable', value: 'Value' }}
+            allowSecrets
+          />
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,16 @@
+import { createContext, useContext } from 'react';
+import { VariableScopes } from '@/utils/variableUtils';
+
+export interface VariableScopesContextValue {
+  scopes: VariableScopes;
+  secrets: Set<string>;
+}
+
+export const VariableScopesContext = createContext<VariableScopesContextValue>({
+  scopes: {},
+  secrets: new Set(),
+});
+
+export function useVariableScopes() {
+  return useContext(VariableScopesContext);
+}
@@ -7,14 +7,28 @@ export interface PostmanCollection {
     description?: string;
   };
   item: PostmanItem[];
+  variable?: PostmanVariable[];
+  event?: PostmanEvent[];
+  auth?: PostmanAuth;
+  header?: PostmanHeader[]; // Default headers for every request in the collection
 }
 
 export interface PostmanItem {
   name: string;
   item?: PostmanItem[]; // For folders
+  variable?: PostmanVariable[]; // Folder-level variables
+  auth?: PostmanAuth; // Folder-level auth, used by requests without their own
+  header?: PostmanHeader[]; // Folder-level default headers
   request?: PostmanRequest;
+  event?: PostmanEvent[];
   response?: any[];
   protocolProfileBehavior?: any;
+  // Kept from a .http file so saving it back doesn't rewrite lines the app has no field for;
+  // left out of Postman exports and collection files
+  httpFile?: {
+    title?: string;
+    httpVersion?: string;
+  };
 }
 
 export interface PostmanRequest {
@@ -25,6 +39,15 @@ export interface PostmanRequest {
   auth?: PostmanAuth;
 }
 
+export interface PostmanEvent {
+  listen: 'prerequest' | 'test';
+  script: {
+    type?: string;
+    exec: string[] | string;
+  };
+  disabled?: boolean;
+}
+
 export interface PostmanHeader {
   key: string;
   value: string;
@@ -43,8 +66,19 @@ export interface PostmanBody {
   formdata?: Array<{
     key: string;
     value: string;
-    type: string;
+    type: string; // 'text' or 'file'
+    src?: string; // Path of a 'file' entry
+    disabled?: boolean;
+  }>;
+  urlencoded?: Array<{
+    key: string;
+    value: string;
+    disabled?: boolean;
   }>;
+  graphql?: {
+    query: string;
+    variables?: string; // JSON text, as Postman stores it
+  };
 }
 
 export interface PostmanUrl {
@@ -57,6 +91,8 @@ export interface PostmanUrl {
     key: string;
     value: string;
   }>;
+  // Values for ":name" path segments
+  variable?: PostmanVariable[];
 }
 
 export interface PostmanAuth {
@@ -94,15 +130,45 @@ export interface RequestResponse {
   size: number;
 }
 
+export interface TestResult {
+  name: string;
+  passed: boolean;
+  skipped?: boolean;
+  error?: string;
+}
+
+export interface ScriptLog {
+  level: 'log' | 'info' | 'warn' | 'error';
+  message: string;
+}
+
 export interface AppState {
   collections: PostmanCollection[];
   activeCollection: string | null;
   activeRequest: string | null;
   requestHistory: RequestResponse[];
+  environments: PostmanEnvironment[];
+  activeEnvironment: string | null;
+}
+
+export interface PostmanVariable {
+  key: string;
+  value: string;
+  type?: string;
+  enabled?: boolean; // Used by environment and globals files
+  disabled?: boolean; // Used by collection variables
+}
+
+export interface PostmanEnvironment {
+  id: string;
+  name: string;
+  values: PostmanVariable[];
+  _postman_variable_scope?: 'environment' | 'globals';
 }
 
 export interface KeyValuePair {
   key: string;
   value: string;
   enabled: boolean;
+  secret?: boolean;
 }
\ No newline at end of file
@@ -0,0 +1,520 @@
+import { HttpMethod, PostmanAuth, PostmanBody, PostmanCollection, PostmanEnvironment, PostmanEvent, PostmanHeader, PostmanItem, PostmanVariable } from '@/types/postman';
+import { createNewCollection, getEventScript, parsePostmanEnvironment, uniqueItemName } from '@/utils/postmanUtils';
+
+/**
+ * Bruno keeps a collection as a directory: a bruno.json marker, one .bru file
+ * per request, a sub-directory (with an optional folder.bru) per folder and
+ * .bru files for environments under environments/. A .bru file is a list of
+ * named blocks, either `key: value` pairs or indented text such as a body.
+ */
+
+export interface BruPair {
+  key: string;
+  value: string;
+  disabled?: boolean;
+}
+
+export interface BruBlock {
+  name: string;
+  pairs?: BruPair[];
+  text?: string;
+  list?: string[];
+}
+
+export interface BrunoImport {
+  collection: PostmanCollection;
+  environments: PostmanEnvironment[];
+}
+
+// The async iterators of directory handles aren't part of the DOM typings yet
+type DirectoryHandle = FileSystemDirectoryHandle & {
+  entries(): AsyncIterableIterator<[string, FileSystemDirectoryHandle | FileSystemFileHandle]>;
+};
+
+const TEXT_BLOCKS = new Set(['body:json', 'body:text', 'body:xml', 'body:sparql', 'body:graphql', 'body:graphql:vars', 'tests', 'docs']);
+const isTextBlock = (name: string) => TEXT_BLOCKS.has(name) || name.startsWith('script:');
+
+const METHOD_BLOCKS: HttpMethod[] = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS'];
+
+const RAW_BODY_MODES: Record<string, string> = { json: 'json', xml: 'xml', text: 'text', sparql: 'text' };
+
+const MULTILINE = "'''";
+
+export function parseBru(text: string): BruBlock[] {
+  const lines = text.split(/\r?\n/);
+  const blocks: BruBlock[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const header = lines[i].match(/^([\w:.-]+)\s*([{[])\s*$/);
+    if (!header) continue;
+    const [, name, open] = header;
+    const close = open === '{' ? '}' : ']';
+
+    const content: string[] = [];
+    for (i++; i < lines.length && lines[i].trimEnd() !== close; i++) {
+      content.push(lines[i]);
+    }
+
+    if (open === '[') {
+      blocks.push({ name, list: content.map(line => line.trim().replace(/,$/, '')).filter(Boolean) });
+    } else if (isTextBlock(name)) {
+      blocks.push({ name, text: content.map(line => line.replace(/^ {2}/, '')).join('\n').replace(/\n+$/, '') });
+    } else {
+      const pairs: BruPair[] = [];
+      for (let j = 0; j < content.length; j++) {
+        const line = content[j].trim();
+        const separator = line.indexOf(':');
+        if (separator <= 0) continue;
+        const disabled = line.startsWith('~');
+        let value = line.slice(separator + 1).trim();
+        // Multi-line values are fenced by ''' lines and indented one level deeper
+        if (value === MULTILINE) {
+          const valueLines: string[] = [];
+          for (j++; j < content.length && content[j].trim() !== MULTILINE; j++) {
+            valueLines.push(content[j].replace(/^ {4}/, ''));
+          }
+          value = valueLines.join('\n');
+        }
+        pairs.push({ key: line.slice(disabled ? 1 : 0, separator).trim(), value, ...(disabled && { disabled }) });
+      }
+      blocks.push({ name, pairs });
+    }
+  }
+  return blocks;
+}
+
+const indent = (text: string, prefix = '  ') => text.split('\n').map(line => (line ? `${prefix}${line}` : line)).join('\n');
+
+export function serializeBru(blocks: BruBlock[]): string {
+  return blocks.map(block => {
+    if (block.list) {
+      return `${block.name} [\n${block.list.map(item => `  ${item}`).join(',\n')}\n]`;
+    }
+    if (block.text !== undefined) {
+      return `${block.name} {\n${indent(block.text)}\n}`;
+    }
+    const pairs = (block.pairs || []).map(pair => {
+      const key = `${pair.disabled ? '~' : ''}${pair.key}`;
+      return pair.value.includes('\n')
+        ? `  ${key}: ${MULTILINE}\n${indent(pair.value, '    ')}\n    ${MULTILINE}`
+        : `  ${key}: ${pair.value}`;
+    });
+    return `${block.name} {\n${pairs.join('\n')}\n}`;
+  }).join('\n\n') + '\n';
+}
+
+// The most common calls of Bruno's script API and their pm equivalents
+const SCRIPT_API: Array<[bru: string, pm: string]> = [
+  ['bru.setEnvVar(', 'pm.environment.set('],
+  ['bru.getEnvVar(', 'pm.environment.get('],
+  ['bru.setVar(', 'pm.variables.set('],
+  ['bru.getVar(', 'pm.variables.get('],
+  ['res.getStatus()', 'pm.response.code'],
+  ['res.getBody()', 'pm.response.json()'],
+  ['test(', 'pm.test('],
+  ['expect(', 'pm.expect('],
+];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function translateScript(script: string, from: 0 | 1): string {
+  return SCRIPT_API.reduce((result, pair) => {
+    // Only whole calls, so "pm.test(" isn't rewritten again as "test("
+    const pattern = new RegExp(`(^|[^\\w$.])${escapeRegExp(pair[from])}`, 'g');
+    return result.replace(pattern, `$1${pair[1 - from]}`);
+  }, script);
+}
+
+const toPmScript = (script: string) => translateScript(script, 0);
+const toBruScript = (script: string) => translateScript(script, 1);
+
+const findBlock = (blocks: BruBlock[], name: string) => blocks.find(block => block.name === name);
+const pairValue = (block: BruBlock | undefined, key: string) => block?.pairs?.find(pair => pair.key === key)?.value ?? '';
+
+const toHeaders = (pairs: BruPair[] = []): PostmanHeader[] =>
+  pairs.map(pair => ({ key: pair.key, value: pair.value, ...(pair.disabled && { disabled: true }) }));
+
+function toAuth(blocks: BruBlock[], mode: string): PostmanAuth | undefined {
+  const block = findBlock(blocks, `auth:${mode}`);
+  const value = (key: string) => pairValue(block, key);
+  switch (mode) {
+    case 'none':
+      return { type: 'noauth' };
+    case 'bearer':
+      return { type: 'bearer', bearer: [{ key: 'token', value: value('token'), type: 'string' }] };
+    case 'basic':
+      return {
+        type: 'basic',
+        basic: [
+          { key: 'username', value: value('username'), type: 'string' },
+          { key: 'password', value: value('password'), type: 'string' },
+        ],
+      };
+    case 'apikey':
+      return {
+        type: 'apikey',
+        apikey: [
+          { key: 'key', value: value('key'), type: 'string' },
+          { key: 'value', value: value('value'), type: 'string' },
+          { key: 'in', value: value('placement') === 'queryparams' ? 'query' : 'header', type: 'string' },
+        ],
+      };
+    default:
+      // "inherit", and schemes without an equivalent, use the parent's auth
+      return undefined;
+  }
+}
+
+function toBody(blocks: BruBlock[], mode: string): PostmanBody | undefined {
+  if (RAW_BODY_MODES[mode]) {
+    const raw = findBlock(blocks, `body:${mode}`)?.text;
+    return raw ? { mode: 'raw', raw, options: { raw: { language: RAW_BODY_MODES[mode] } } } : undefined;
+  }
+  if (mode === 'formUrlEncoded') {
+    const pairs = findBlock(blocks, 'body:form-urlencoded')?.pairs || [];
+    return { mode: 'urlencoded', urlencoded: pairs.map(pair => ({ ...pair })) };
+  }
+  if (mode === 'multipartForm') {
+    const pairs = findBlock(blocks, 'body:multipart-form')?.pairs || [];
+    return {
+      mode: 'formdata',
+      formdata: pairs.map(pair => {
+        const file = pair.value.match(/^@file\((.*)\)$/);
+        return {
+          key: pair.key,
+          ...(file ? { value: '', type: 'file', src: file[1] } : { value: pair.value, type: 'text' }),
+          ...(pair.disabled && { disabled: true }),
+        };
+      }),
+    };
+  }
+  if (mode === 'graphql') {
+    const variables = findBlock(blocks, 'body:graphql:vars')?.text;
+    return {
+      mode: 'graphql',
+      graphql: { query: findBlock(blocks, 'body:graphql')?.text || '', ...(variables && { variables }) },
+    };
+  }
+  return undefined;
+}
+
+const toScriptEvent = (listen: PostmanEvent['listen'], scripts: Array<string | undefined>): PostmanEvent[] => {
+  const script = scripts.filter(Boolean).join('\n\n');
+  return script ? [{ listen, script: { type: 'text/javascript', exec: toPmScript(script).split('\n') } }] : [];
+};
+
+// Settings shared by requests, folder.bru and collection.bru
+function toSettings(blocks: BruBlock[], authMode: string) {
+  const header = toHeaders(findBlock(blocks, 'headers')?.pairs);
+  const auth = toAuth(blocks, authMode);
+  const event = [
+    ...toScriptEvent('prerequest', [findBlock(blocks, 'script:pre-request')?.text]),
+    ...toScriptEvent('test', [findBlock(blocks, 'script:post-response')?.text, findBlock(blocks, 'tests')?.text]),
+  ];
+  return { header, ...(auth && { auth }), ...(event.length && { event }) };
+}
+
+const toVariables = (pairs: BruPair[] = []): PostmanVariable[] =>
+  pairs.map(pair => ({ key: pair.key, value: pair.value, ...(pair.disabled && { disabled: true }) }));
+
+const seqOf = (blocks: BruBlock[]) => Number(pairValue(findBlock(blocks, 'meta'), 'seq')) || 0;
+
+export function parseBruRequest(text: string, fallbackName: string): PostmanItem {
+  const blocks = parseBru(text);
+  const methodBlock = blocks.find(block => METHOD_BLOCKS.includes(block.name.toUpperCase() as HttpMethod));
+  if (!methodBlock) {
+    throw new Error(`${fallbackName}.bru has no request method block`);
+  }
+
+  const { header, auth, event = [] } = toSettings(blocks, pairValue(methodBlock, 'auth') || 'inherit');
+  const body = toBody(blocks, pairValue(methodBlock, 'body'));
+
+  const variable = toVariables(findBlock(blocks, 'vars:pre-request')?.pairs);
+  const url = pairValue(methodBlock, 'url');
+  const pathVariables = toVariables(findBlock(blocks, 'params:path')?.pairs);
+
+  return {
+    name: pairValue(findBlock(blocks, 'meta'), 'name') || fallbackName,
+    request: {
+      method: methodBlock.name.toUpperCase() as HttpMethod,
+      header,
+      url: pathVariables.length ? { raw: url, variable: pathVariables } : url,
+      ...(body && { body }),
+      ...(auth && { auth }),
+    },
+    ...(event.length && { event }),
+    ...(variable.length && { variable }),
+    response: [],
+  };
+}
+
+function parseBruEnvironment(text: string, name: string): PostmanEnvironment {
+  const blocks = parseBru(text);
+  const values = (findBlock(blocks, 'vars')?.pairs || []).map(pair => ({
+    key: pair.key, value: pair.value, type: 'default', enabled: !pair.disabled,
+  }));
+  // Bruno never writes secret values to disk, only their names
+  const secrets = (findBlock(blocks, 'vars:secret')?.list || []).map(entry => ({
+    key: entry.replace(/^~/, ''), value: '', type: 'secret', enabled: !entry.startsWith('~'),
+  }));
+  return parsePostmanEnvironment({ name, values: [...values, ...secrets] });
+}
+
+async function readEntries(dir: FileSystemDirectoryHandle) {
+  const files = new Map<string, FileSystemFileHandle>();
+  const directories = new Map<string, FileSystemDirectoryHandle>();
+  for await (const [name, handle] of (dir as DirectoryHandle).entries()) {
+    if (handle.kind === 'file') files.set(name, handle);
+    else directories.set(name, handle);
+  }
+  return { files, directories };
+}
+
+const readText = async (handle: FileSystemFileHandle) => (await handle.getFile()).text();
+
+async function readFolder(dir: FileSystemDirectoryHandle, ignore: Set<string>, isRoot = false): Promise<PostmanItem[]> {
+  const { files, directories } = await readEntries(dir);
+
+  const folders: Array<{ seq: number; item: PostmanItem }> = [];
+  for (const [name, handle] of directories) {
+    if (ignore.has(name) || (isRoot && name === 'environments')) continue;
+    const { files: folderFiles } = await readEntries(handle);
+    const folderBru = folderFiles.get('folder.bru');
+    const blocks = folderBru ? parseBru(await readText(folderBru)) : [];
+    const item = await readFolder(handle, ignore);
+    if (!folderBru && item.length === 0) continue;
+
+    const { header, ...settings } = toSettings(blocks, pairValue(findBlock(blocks, 'auth'), 'mode') || 'inherit');
+    const variable = toVariables(findBlock(blocks, 'vars:pre-request')?.pairs);
+    folders.push({
+      seq: seqOf(blocks),
+      item: {
+        name: pairValue(findBlock(blocks, 'meta'), 'name') || name,
+        item,
+        ...settings,
+        ...(header.length && { header }),
+        ...(variable.length && { variable }),
+      },
+    });
+  }
+
+  const requests: Array<{ seq: number; item: PostmanItem }> = [];
+  for (const [name, handle] of files) {
+    if (!name.endsWith('.bru') || name === 'folder.bru' || name === 'collection.bru') continue;
+    const text = await readText(handle);
+    requests.push({ seq: seqOf(parseBru(text)), item: parseBruRequest(text, name.replace(/\.bru$/, '')) });
+  }
+
+  const bySeq = (a: { seq: number; item: PostmanItem }, b: { seq: number; item: PostmanItem }) =>
+    a.seq - b.seq || a.item.name.localeCompare(b.item.name);
+  const items: PostmanItem[] = [];
+  [...folders.sort(bySeq), ...requests.sort(bySeq)].forEach(({ item }) => {
+    items.push({ ...item, name: uniqueItemName(items, item.name) });
+  });
+  return items;
+}
+
+/** Reads a Bruno collection directory, including its environments. */
+export async function readBrunoCollection(dir: FileSystemDirectoryHandle): Promise<BrunoImport> {
+  const { files, directories } = await readEntries(dir);
+  const config = files.get('bruno.json');
+  if (!config) {
+    throw new Error('Not a Bruno collection: bruno.json is missing');
+  }
+  const { name, ignore = ['node_modules', '.git'] } = JSON.parse(await readText(config));
+
+  const collection = createNewCollection(name || dir.name);
+  collection.item = await readFolder(dir, new Set(ignore), true);
+
+  const collectionBru = files.get('collection.bru');
+  if (collectionBru) {
+    const blocks = parseBru(await readText(collectionBru));
+    // There is nothing above the collection to inherit from, so "none" is the same as no auth
+    const mode = pairValue(findBlock(blocks, 'auth'), 'mode');
+    const { header, auth, event } = toSettings(blocks, mode === 'none' ? 'inherit' : mode);
+    const variable = toVariables(findBlock(blocks, 'vars:pre-request')?.pairs);
+    const docs = findBlock(blocks, 'docs')?.text;
+    if (header.length) collection.header = header;
+    if (auth) collection.auth = auth;
+    if (event) collection.event = event;
+    if (variable.length) collection.variable = variable;
+    if (docs) collection.info.description = docs;
+  }
+
+  const environments: PostmanEnvironment[] = [];
+  const environmentsDir = directories.get('environments');
+  if (environmentsDir) {
+    const { files: environmentFiles } = await readEntries(environmentsDir);
+    for (const [fileName, handle] of environmentFiles) {
+      if (!fileName.endsWith('.bru')) continue;
+      environments.push(parseBruEnvironment(await readText(handle), fileName.replace(/\.bru$/, '')));
+    }
+  }
+
+  return { collection, environments };
+}
+
+const fromPairs = (pairs: Array<{ key: string; value: string; disabled?: boolean }> = []): BruPair[] =>
+  pairs.filter(pair => pair.key).map(pair => ({ key: pair.key, value: pair.value ?? '', ...(pair.disabled && { disabled: true }) }));
+
+function authMode(auth: PostmanAuth | undefined, inherit: string): string {
+  if (!auth) return inherit;
+  return ['noauth', 'bearer', 'basic', 'apikey'].includes(auth.type) ? (auth.type === 'noauth' ? 'none' : auth.type) : inherit;
+}
+
+function authBlocks(auth: PostmanAuth | undefined): BruBlock[] {
+  const value = (key: string) => String(auth?.[auth.type]?.find(param => param.key === key)?.value ?? '');
+  switch (auth?.type) {
+    case 'bearer':
+      return [{ name: 'auth:bearer', pairs: [{ key: 'token', value: value('token') }] }];
+    case 'basic':
+      return [{ name: 'auth:basic', pairs: [{ key: 'username', value: value('username') }, { key: 'password', value: value('password') }] }];
+    case 'apikey':
+      return [{
+        name: 'auth:apikey',
+        pairs: [
+          { key: 'key', value: value('key') },
+          { key: 'value', value: value('value') },
+          { key: 'placement', value: value('in') === 'query' ? 'queryparams' : 'header' },
+        ],
+      }];
+    default:
+      return [];
+  }
+}
+
+function bodyBlocks(body: PostmanBody | undefined): { mode: string; blocks: BruBlock[] } {
+  if (body?.mode === 'raw' && body.raw) {
+    const language = body.options?.raw?.language;
+    const mode = language === 'json' || language === 'xml' ? language : 'text';
+    return { mode, blocks: [{ name: `body:${mode}`, text: body.raw }] };
+  }
+  if (body?.mode === 'urlencoded' && body.urlencoded?.length) {
+    return { mode: 'formUrlEncoded', blocks: [{ name: 'body:form-urlencoded', pairs: fromPairs(body.urlencoded) }] };
+  }
+  if (body?.mode === 'formdata' && body.formdata?.length) {
+    const pairs = body.formdata.map(field => ({
+      key: field.key,
+      value: field.type === 'file' ? `@file(${field.src || ''})` : field.value,
+      ...(field.disabled && { disabled: true }),
+    }));
+    return { mode: 'multipartForm', blocks: [{ name: 'body:multipart-form', pairs }] };
+  }
+  if (body?.mode === 'graphql' && body.graphql?.query) {
+    const { query, variables } = body.graphql;
+    return {
+      mode: 'graphql',
+      blocks: [{ name: 'body:graphql', text: query }, ...(variables?.trim() ? [{ name: 'body:graphql:vars', text: variables }] : [])],
+    };
+  }
+  return { mode: 'none', blocks: [] };
+}
+
+function scriptBlocks(events: PostmanEvent[] | undefined): BruBlock[] {
+  const prerequest = getEventScript(events, 'prerequest');
+  const test = getEventScript(events, 'test');
+  return [
+    ...(prerequest.trim() ? [{ name: 'script:pre-request', text: toBruScript(prerequest) }] : []),
+    ...(test.trim() ? [{ name: 'tests', text: toBruScript(test) }] : []),
+  ];
+}
+
+function queryPairs(url: string): BruPair[] {
+  const query = url.split('#')[0].split('?').slice(1).join('?');
+  if (!query) return [];
+  return query.split('&').filter(Boolean).map(part => {
+    const separator = part.indexOf('=');
+    return separator === -1 ? { key: part, value: '' } : { key: part.slice(0, separator), value: part.slice(separator + 1) };
+  });
+}
+
+export function serializeBruRequest(item: PostmanItem, seq: number): string {
+  const { request } = item;
+  const url = typeof request.url === 'string' ? request.url : request.url?.raw || '';
+  const pathVariables = typeof request.url === 'string' ? [] : request.url?.variable || [];
+  const body = bodyBlocks(request.body);
+  const query = queryPairs(url);
+
+  return serializeBru([
+    { name: 'meta', pairs: [{ key: 'name', value: item.name }, { key: 'type', value: body.mode === 'graphql' ? 'graphql' : 'http' }, { key: 'seq', value: String(seq) }] },
+    {
+      name: request.method.toLowerCase(),
+      pairs: [{ key: 'url', value: url }, { key: 'body', value: body.mode }, { key: 'auth', value: authMode(request.auth, 'inherit') }],
+    },
+    ...(query.length ? [{ name: 'params:query', pairs: query }] : []),
+    ...(pathVariables.length ? [{ name: 'params:path', pairs: fromPairs(pathVariables) }] : []),
+    ...(request.header?.length ? [{ name: 'headers', pairs: fromPairs(request.header) }] : []),
+    ...authBlocks(request.auth),
+    ...body.blocks,
+    ...(item.variable?.length ? [{ name: 'vars:pre-request', pairs: fromPairs(item.variable) }] : []),
+    ...scriptBlocks(item.event),
+  ]);
+}
+
+// folder.bru and collection.bru share everything but the meta block
+function serializeBruSettings(
+  source: Pick<PostmanItem, 'auth' | 'header' | 'variable' | 'event'>,
+  meta: BruBlock[],
+  inheritMode: string,
+  docs?: string
+): string {
+  return serializeBru([
+    ...meta,
+    ...(source.header?.length ? [{ name: 'headers', pairs: fromPairs(source.header) }] : []),
+    { name: 'auth', pairs: [{ key: 'mode', value: authMode(source.auth, inheritMode) }] },
+    ...authBlocks(source.auth),
+    ...(source.variable?.length ? [{ name: 'vars:pre-request', pairs: fromPairs(source.variable) }] : []),
+    ...scriptBlocks(source.event),
+    ...(docs ? [{ name: 'docs', text: docs }] : []),
+  ]);
+}
+
+// Characters most file systems reject; Bruno itself stores the real name in meta
+const toFileName = (name: string) => name.replace(/[\\/:*?"<>|]/g, '-').trim() || 'Untitled';
+
+function uniqueFileName(used: Set<string>, name: string): string {
+  let candidate = toFileName(name);
+  for (let counter = 2; used.has(candidate.toLowerCase()); counter++) {
+    candidate = `${toFileName(name)} (${counter})`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+async function writeTextFile(dir: FileSystemDirectoryHandle, name: string, content: string) {
+  const fileHandle = await dir.getFileHandle(name, { create: true });
+  const writable = await fileHandle.createWritable();
+  await writable.write(content);
+  await writable.close();
+}
+
+async function writeFolder(dir: FileSystemDirectoryHandle, items: PostmanItem[]) {
+  // Names taken by the settings files and, at the top level, the environments directory
+  const used = new Set(['folder', 'collection', 'environments']);
+  for (const [index, item] of items.entries()) {
+    const seq = index + 1;
+    if (item.item) {
+      const folderDir = await dir.getDirectoryHandle(uniqueFileName(used, item.name), { create: true });
+      const meta = [{ name: 'meta', pairs: [{ key: 'name', value: item.name }, { key: 'seq', value: String(seq) }] }];
+      await writeTextFile(folderDir, 'folder.bru', serializeBruSettings(item, meta, 'inherit'));
+      await writeFolder(folderDir, item.item);
+    } else if (item.request) {
+      await writeTextFile(dir, `${uniqueFileName(used, item.name)}.bru`, serializeBruRequest(item, seq));
+    }
+  }
+}
+
+/**
+ * Writes a collection as a Bruno collection directory inside `parent` and
+ * returns the name of the directory it created.
+ */
+export async function writeBrunoCollection(parent: FileSystemDirectoryHandle, collection: PostmanCollection): Promise<string> {
+  const dirName = toFileName(collection.info.name);
+  const dir = await parent.getDirectoryHandle(dirName, { create: true });
+
+  const config = { version: '1', name: collection.info.name, type: 'collection', ignore: ['node_modules', '.git'] };
+  await writeTextFile(dir, 'bruno.json', `${JSON.stringify(config, null, 2)}\n`);
+  await writeTextFile(dir, 'collection.bru', serializeBruSettings(collection, [], 'none', collection.info.description));
+  await writeFolder(dir, collection.item);
+  return dirName;
+}
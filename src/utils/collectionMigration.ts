@@ -0,0 +1,254 @@
+export const COLLECTION_SCHEMA_V21 = 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json';
+
+type Json = Record<string, unknown>;
+
+interface LegacyRequest {
+  id: string;
+  name?: string;
+  description?: string;
+  url?: string;
+  method?: string;
+  headers?: string;
+  headerData?: Array<{ key: string; value?: string; enabled?: boolean; disabled?: boolean }>;
+  dataMode?: string;
+  data?: Array<{ key: string; value?: string; type?: string; enabled?: boolean; disabled?: boolean }> | null;
+  rawModeData?: string;
+  graphqlModeData?: { query?: string; variables?: string };
+  dataOptions?: unknown;
+  preRequestScript?: string | null;
+  tests?: string | null;
+  events?: unknown[];
+  auth?: unknown;
+  currentHelper?: string | null;
+  helperAttributes?: Record<string, string> | null;
+}
+
+interface LegacyFolder {
+  id: string;
+  name?: string;
+  description?: string;
+  order?: string[];
+  folders_order?: string[];
+  auth?: unknown;
+  events?: unknown[];
+}
+
+interface LegacyCollection {
+  id?: string;
+  name?: string;
+  description?: string;
+  order?: string[];
+  folders_order?: string[];
+  folders?: LegacyFolder[];
+  requests: LegacyRequest[];
+  auth?: unknown;
+  events?: unknown[];
+  variables?: unknown[];
+}
+
+const isPlainObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Parses a raw header block ("Key: Value" per line, "//" marks a disabled header). */
+export function parseHeaderString(headers: string): Array<{ key: string; value: string; disabled?: boolean }> {
+  return headers.split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.replace(/^\/\//, '').includes(':'))
+    .map(line => {
+      const disabled = line.startsWith('//');
+      const header = disabled ? line.slice(2) : line;
+      const separator = header.indexOf(':');
+      return {
+        key: header.slice(0, separator).trim(),
+        value: header.slice(separator + 1).trim(),
+        ...(disabled && { disabled }),
+      };
+    });
+}
+
+/**
+ * v1.0 and v2.0 store auth parameters as a map, e.g. { type: 'bearer', bearer: { token } },
+ * where v2.1 uses a list of { key, value, type } entries.
+ */
+function migrateAuth(auth: unknown): unknown {
+  if (!isPlainObject(auth) || typeof auth.type !== 'string') return auth;
+  const params = auth[auth.type];
+  if (!isPlainObject(params)) return auth;
+  return {
+    ...auth,
+    [auth.type]: Object.entries(params).map(([key, value]) => ({
+      key,
+      value,
+      type: typeof value === 'boolean' ? 'boolean' : typeof value === 'number' ? 'number' : 'string',
+    })),
+  };
+}
+
+function migrateV20Item(item: unknown): unknown {
+  if (!isPlainObject(item)) return item;
+  const migrated: Json = { ...item };
+  if ('auth' in item) migrated.auth = migrateAuth(item.auth);
+  if (isPlainObject(item.request) && 'auth' in item.request) {
+    migrated.request = { ...item.request, auth: migrateAuth(item.request.auth) };
+  }
+  if (Array.isArray(item.item)) migrated.item = item.item.map(migrateV20Item);
+  return migrated;
+}
+
+const scriptEvent = (listen: string, script: string) => ({
+  listen,
+  script: { type: 'text/javascript', exec: script.split(/\r?\n/) },
+});
+
+function legacyEvents(source: { events?: unknown[]; preRequestScript?: string | null; tests?: string | null }) {
+  if (Array.isArray(source.events)) return source.events;
+  const events = [];
+  if (source.preRequestScript) events.push(scriptEvent('prerequest', source.preRequestScript));
+  if (source.tests) events.push(scriptEvent('test', source.tests));
+  return events.length > 0 ? events : undefined;
+}
+
+function legacyRequestAuth(request: LegacyRequest): unknown {
+  if (request.auth) return migrateAuth(request.auth);
+  // Before auth was a first-class field it was configured through "helpers"
+  const attributes = request.helperAttributes || {};
+  if (request.currentHelper === 'basicAuth') {
+    return migrateAuth({ type: 'basic', basic: { username: attributes.username || '', password: attributes.password || '' } });
+  }
+  if (request.currentHelper === 'bearerAuth') {
+    return migrateAuth({ type: 'bearer', bearer: { token: attributes.token || '' } });
+  }
+  return undefined;
+}
+
+function legacyBody(request: LegacyRequest): unknown {
+  const fields = (request.data || []).map(field => ({
+    key: field.key,
+    value: field.value ?? '',
+    ...((field.enabled === false || field.disabled) && { disabled: true }),
+  }));
+
+  switch (request.dataMode) {
+    case 'raw':
+      return request.rawModeData
+        ? { mode: 'raw', raw: request.rawModeData, ...(request.dataOptions && { options: request.dataOptions }) }
+        : undefined;
+    case 'urlencoded':
+      return fields.length > 0 ? { mode: 'urlencoded', urlencoded: fields } : undefined;
+    case 'params':
+      return fields.length > 0
+        ? {
+          mode: 'formdata',
+          formdata: fields.map((field, index) => (request.data[index].type === 'file'
+            ? { ...field, value: '', type: 'file', src: field.value }
+            : { ...field, type: 'text' })),
+        }
+        : undefined;
+    case 'graphql':
+      return request.graphqlModeData
+        ? { mode: 'graphql', graphql: { query: request.graphqlModeData.query || '', variables: request.graphqlModeData.variables } }
+        : undefined;
+    default:
+      return undefined;
+  }
+}
+
+function migrateLegacyRequest(request: LegacyRequest): Json {
+  const header = Array.isArray(request.headerData)
+    ? request.headerData.map(h => ({
+      key: h.key,
+      value: h.value ?? '',
+      ...((h.enabled === false || h.disabled) && { disabled: true }),
+    }))
+    : parseHeaderString(request.headers || '');
+  const body = legacyBody(request);
+  const auth = legacyRequestAuth(request);
+  const event = legacyEvents(request);
+
+  return {
+    id: request.id,
+    name: request.name || request.url || 'Untitled Request',
+    ...(request.description && { description: request.description }),
+    request: {
+      method: (request.method || 'GET').toUpperCase(),
+      header,
+      url: request.url || '',
+      ...(body && { body }),
+      ...(auth && { auth }),
+    },
+    ...(event && { event }),
+    response: [],
+  };
+}
+
+/**
+ * Rebuilds the v2.1 item tree from a v1.0 collection, where requests and
+ * folders are flat lists ordered by id through `order` and `folders_order`.
+ */
+function migrateV1Collection(legacy: LegacyCollection): Json {
+  const requests = new Map(legacy.requests.filter(isPlainObject).map(request => [request.id, request]));
+  const folders = new Map((legacy.folders || []).filter(isPlainObject).map(folder => [folder.id, folder]));
+  const placed = new Set<string>();
+
+  const requestItems = (ids: string[] = []) => ids.flatMap(id => {
+    if (!requests.has(id) || placed.has(id)) return [];
+    placed.add(id);
+    return [migrateLegacyRequest(requests.get(id))];
+  });
+
+  // A folder or request listed twice, or a folder nested inside itself, is only placed once
+  const folderItems = (ids: string[]): Json[] => ids.flatMap(id => {
+    if (!folders.has(id) || placed.has(id)) return [];
+    placed.add(id);
+    const folder = folders.get(id);
+    const auth = folder.auth ? migrateAuth(folder.auth) : undefined;
+    return [{
+      id: folder.id,
+      name: folder.name || 'Untitled Folder',
+      ...(folder.description && { description: folder.description }),
+      item: [...folderItems(folder.folders_order || []), ...requestItems(folder.order)],
+      ...(auth && { auth }),
+      ...(Array.isArray(folder.events) && { event: folder.events }),
+    }];
+  });
+
+  const nested = new Set([...folders.values()].flatMap(folder => folder.folders_order || []));
+  const rootFolders = legacy.folders_order || [...folders.keys()].filter(id => !nested.has(id));
+  const item = [...folderItems(rootFolders), ...requestItems(legacy.order)];
+  // Keep requests that no order list mentions rather than dropping them silently
+  item.push(...requestItems([...requests.keys()]));
+
+  const auth = legacy.auth ? migrateAuth(legacy.auth) : undefined;
+  return {
+    info: {
+      ...(legacy.id && { _postman_id: legacy.id }),
+      name: legacy.name,
+      ...(legacy.description && { description: legacy.description }),
+      schema: COLLECTION_SCHEMA_V21,
+    },
+    item,
+    ...(Array.isArray(legacy.variables) && { variable: legacy.variables }),
+    ...(Array.isArray(legacy.events) && { event: legacy.events }),
+    ...(auth && { auth }),
+  };
+}
+
+export function isLegacyV1Collection(json: unknown): json is LegacyCollection {
+  return isPlainObject(json) && Array.isArray(json.requests) && !('item' in json);
+}
+
+/**
+ * Brings a v1.0 or v2.0 collection export into the v2.1 format. Anything
+ * else is returned unchanged, so validation reports on the original document.
+ */
+export function migrateCollection(json: unknown): unknown {
+  if (isLegacyV1Collection(json)) return migrateV1Collection(json);
+  if (!isPlainObject(json) || !isPlainObject(json.info) || !Array.isArray(json.item)) return json;
+
+  return {
+    ...json,
+    info: { ...json.info, schema: COLLECTION_SCHEMA_V21 },
+    item: json.item.map(migrateV20Item),
+    ...('auth' in json && { auth: migrateAuth(json.auth) }),
+  };
+}
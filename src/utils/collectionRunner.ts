@@ -0,0 +1,286 @@
+import {
+  PostmanCollection,
+  PostmanEnvironment,
+  PostmanItem,
+  PostmanRequest,
+  RequestResponse,
+  ScriptLog,
+  TestResult,
+} from '@/types/postman';
+import { ScriptExecutionInput, ScriptExecutionResult } from '@/utils/scriptSandbox';
+import { DataRow } from '@/utils/dataFileUtils';
+import { containsEncryptedValue } from '@/utils/secretUtils';
+import { applyInheritedSettings, executeRequest, findItemByPath, getInheritedScripts } from '@/utils/postmanUtils';
+import {
+  VariableScopes,
+  applyVariableChanges,
+  buildVariableScopes,
+  flattenVariableScopes,
+  resolveRequest,
+} from '@/utils/variableUtils';
+
+// The browser runs scripts in a worker, the CLI in-process; both fit this shape
+export type ScriptRunner = (
+  input: ScriptExecutionInput,
+  options: { timeout?: number }
+) => Promise<ScriptExecutionResult>;
+
+export interface RequestRunOptions {
+  runScript: ScriptRunner;
+  scriptTimeout?: number;
+  iteration?: number;
+  iterationCount?: number;
+}
+
+export interface RequestRunResult {
+  // The request as sent: after pre-request scripts, with variables resolved
+  request: PostmanRequest;
+  response?: RequestResponse;
+  scopes: VariableScopes;
+  tests: TestResult[];
+  logs: ScriptLog[];
+  // Set when a pre-request script fails and the request is not sent
+  error?: string;
+  testErrors: string[];
+  // The last setNextRequest call made by any of the scripts
+  nextRequest?: string | null;
+}
+
+/**
+ * Sends the request at `path` the way Postman does: inherited auth and headers
+ * are applied, collection, folder and request pre-request scripts run in that
+ * order, then the request is sent and the test scripts run in the same order.
+ */
+export async function runRequest(
+  collection: PostmanCollection,
+  path: string[],
+  request: PostmanRequest,
+  scopes: VariableScopes,
+  { runScript, scriptTimeout, iteration, iterationCount }: RequestRunOptions
+): Promise<RequestRunResult> {
+  const info = { requestName: path[path.length - 1], iteration, iterationCount };
+  const logs: ScriptLog[] = [];
+  const tests: TestResult[] = [];
+  const testErrors: string[] = [];
+  let nextRequest: string | null | undefined;
+
+  request = applyInheritedSettings(collection, path, request);
+  const resolve = () => resolveRequest(request, flattenVariableScopes(scopes));
+
+  for (const { source, script } of getInheritedScripts(collection, path, 'prerequest')) {
+    const result = await runScript({ listen: 'prerequest', script, request, scopes, info }, { timeout: scriptTimeout });
+    logs.push(...result.logs);
+    scopes = result.scopes;
+    if (result.nextRequest !== undefined) nextRequest = result.nextRequest;
+    if (result.error) {
+      logs.push({ level: 'error', message: `Pre-request script (${source}): ${result.error}` });
+      return {
+        request: resolve(),
+        scopes,
+        tests,
+        logs,
+        testErrors,
+        nextRequest,
+        error: `Pre-request script error in ${source}: ${result.error}`,
+      };
+    }
+    request = result.request;
+  }
+
+  // Resolved once, so dynamic variables like {{$guid}} have the same value in what is sent and reported
+  const sent = resolve();
+  // While secrets are locked their variables hold ciphertext, which must not be sent as the value
+  if (containsEncryptedValue(sent)) {
+    return {
+      request: sent,
+      scopes,
+      tests,
+      logs,
+      testErrors,
+      nextRequest,
+      error: 'The request uses a secret variable that is still encrypted; unlock secrets to send it',
+    };
+  }
+  const response = await executeRequest(sent);
+
+  for (const { source, script } of getInheritedScripts(collection, path, 'test')) {
+    const result = await runScript({ listen: 'test', script, request: sent, response, scopes, info }, { timeout: scriptTimeout });
+    logs.push(...result.logs);
+    scopes = result.scopes;
+    tests.push(...result.tests);
+    if (result.nextRequest !== undefined) nextRequest = result.nextRequest;
+    if (result.error) {
+      logs.push({ level: 'error', message: `Test script (${source}): ${result.error}` });
+      testErrors.push(`${source}: ${result.error}`);
+    }
+  }
+
+  return { request: sent, response, scopes, tests, logs, testErrors, nextRequest };
+}
+
+export interface RunnableRequest {
+  item: PostmanItem;
+  path: string[];
+}
+
+// Requests below the folder at `folderPath` (or the whole collection), depth first in tree
+// order. A path to a single request yields just that request.
+export function collectRequests(collection: PostmanCollection, folderPath: string[] = []): RunnableRequest[] {
+  const target = folderPath.length ? findItemByPath(collection, folderPath) : null;
+  if (target?.request && !target.item) {
+    return [{ item: target, path: folderPath }];
+  }
+  const root = folderPath.length ? target?.item || [] : collection.item;
+  const requests: RunnableRequest[] = [];
+
+  const walk = (items: PostmanItem[], path: string[]) => {
+    items.forEach(item => {
+      if (item.item) {
+        walk(item.item, [...path, item.name]);
+      } else if (item.request) {
+        requests.push({ item, path: [...path, item.name] });
+      }
+    });
+  };
+  walk(root, folderPath);
+
+  return requests;
+}
+
+export interface RunnerOptions {
+  iterations: number;
+  delay: number;
+  stopOnFailure: boolean;
+  scriptTimeout?: number;
+  // One iteration per row, overriding `iterations`; row fields become data variables
+  data?: DataRow[];
+  // How often a single request may run within one iteration when setNextRequest loops
+  loopLimit?: number;
+}
+
+export const DEFAULT_LOOP_LIMIT = 100;
+
+export interface RunnerVariables {
+  collection: PostmanCollection;
+  environment: PostmanEnvironment | null;
+  globals: PostmanEnvironment;
+}
+
+export interface RunnerResult {
+  iteration: number;
+  name: string;
+  path: string[];
+  method: PostmanRequest['method'];
+  url: string;
+  request: PostmanRequest;
+  response?: RequestResponse;
+  tests: TestResult[];
+  logs: ScriptLog[];
+  error?: string;
+  // Where setNextRequest sent the run after this request; null ended the iteration
+  nextRequest?: string | null;
+}
+
+export interface RunnerHooks {
+  runScript: ScriptRunner;
+  onResult?: (result: RunnerResult) => void;
+  shouldStop?: () => boolean;
+}
+
+export function isFailedResult(result: RunnerResult): boolean {
+  return !!result.error || !result.response || result.response.status === 0 || result.tests.some(t => !t.passed);
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs every request under `folderPath` for the given number of iterations.
+ * Variable changes made by scripts carry over to later requests, and the
+ * updated collection, environment and globals are returned so the caller can
+ * keep them. Within an iteration, setNextRequest jumps to the named request
+ * of this run, and setNextRequest(null) ends the iteration.
+ */
+export async function runCollection(
+  variables: RunnerVariables,
+  folderPath: string[],
+  options: RunnerOptions,
+  hooks: RunnerHooks
+): Promise<{ results: RunnerResult[]; variables: RunnerVariables }> {
+  let { collection, environment, globals } = variables;
+  // pm.variables values live for the whole run, like in Postman
+  let local: Record<string, string> = {};
+  const results: RunnerResult[] = [];
+  const requests = collectRequests(collection, folderPath);
+  const iterationCount = options.data?.length || options.iterations;
+  const loopLimit = options.loopLimit ?? DEFAULT_LOOP_LIMIT;
+
+  run: for (let iteration = 0; iteration < iterationCount; iteration++) {
+    const data = options.data?.[iteration] || {};
+    const visits = new Map<number, number>();
+    let index = 0;
+
+    while (index < requests.length) {
+      const { item, path } = requests[index];
+      if (hooks.shouldStop?.()) break run;
+      if (results.length > 0 && options.delay > 0) {
+        await wait(options.delay);
+      }
+      visits.set(index, (visits.get(index) || 0) + 1);
+
+      const before = { ...buildVariableScopes({ collection, path, environment, globals }), data, local };
+      const outcome = await runRequest(collection, path, item.request as PostmanRequest, before, {
+        runScript: hooks.runScript,
+        scriptTimeout: options.scriptTimeout,
+        iteration,
+        iterationCount,
+      });
+      const after = outcome.scopes;
+
+      local = after.local || {};
+      if (environment) {
+        environment = { ...environment, values: applyVariableChanges(environment.values, before.environment, after.environment) };
+      }
+      globals = { ...globals, values: applyVariableChanges(globals.values, before.global, after.global) };
+      collection = { ...collection, variable: applyVariableChanges(collection.variable, before.collection, after.collection) };
+
+      const result: RunnerResult = {
+        iteration,
+        name: item.name,
+        path,
+        method: outcome.request.method,
+        url: typeof outcome.request.url === 'string' ? outcome.request.url : outcome.request.url?.raw || '',
+        request: outcome.request,
+        response: outcome.response,
+        tests: outcome.tests,
+        logs: outcome.logs,
+        error: outcome.error || outcome.testErrors[0],
+        ...(outcome.nextRequest !== undefined && { nextRequest: outcome.nextRequest }),
+      };
+
+      let next = index + 1;
+      if (outcome.nextRequest === null) {
+        next = requests.length;
+      } else if (outcome.nextRequest !== undefined) {
+        next = requests.findIndex(r => r.item.name === outcome.nextRequest);
+        if (next === -1) {
+          result.error = result.error || `setNextRequest: no request named "${outcome.nextRequest}" in this run`;
+          next = requests.length;
+        }
+      }
+      // Stop runaway polling loops instead of running forever
+      if (next < requests.length && (visits.get(next) || 0) >= loopLimit) {
+        result.error = result.error
+          || `Loop limit reached: "${requests[next].item.name}" already ran ${loopLimit} times in this iteration`;
+        next = requests.length;
+      }
+
+      results.push(result);
+      hooks.onResult?.(result);
+
+      if (options.stopOnFailure && isFailedResult(result)) break run;
+      index = next;
+    }
+  }
+
+  return { results, variables: { collection, environment, globals } };
+}
@@ -0,0 +1,233 @@
+import { z } from 'zod';
+import { PostmanCollection, PostmanItem } from '@/types/postman';
+import { parseHeaderString } from '@/utils/collectionMigration';
+
+/**
+ * A validator for the parts of the Postman v2.1 collection schema the app
+ * reads. Unknown fields pass through untouched, and the shorthands the
+ * schema allows (string requests, header blocks, URL objects without `raw`)
+ * are normalised into the shapes of '@/types/postman'.
+ */
+
+export class CollectionValidationError extends Error {
+  constructor(readonly issues: string[], kind: 'collection' | 'environment' = 'collection') {
+    const shown = issues.slice(0, 3).join('; ');
+    super(`Invalid ${kind}: ${shown}${issues.length > 3 ? ` (and ${issues.length - 3} more)` : ''}`);
+    this.name = 'CollectionValidationError';
+  }
+}
+
+const AUTH_TYPES = [
+  'noauth', 'apikey', 'awsv4', 'basic', 'bearer', 'digest', 'edgegrid', 'hawk', 'ntlm', 'oauth1', 'oauth2', 'jwt', 'asap', 'akamai',
+] as const;
+
+const toText = (value: unknown) => (typeof value === 'string' ? value : value == null ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value));
+
+const variableSchema = z.object({
+  key: z.string().optional(),
+  id: z.string().optional(),
+  value: z.unknown().optional(),
+  type: z.string().optional(),
+  disabled: z.boolean().optional(),
+  enabled: z.boolean().optional(),
+}).passthrough()
+  .refine(variable => variable.key !== undefined || variable.id !== undefined, 'A variable needs a "key" or an "id"')
+  .transform(variable => ({ ...variable, key: variable.key ?? variable.id, value: toText(variable.value) }));
+
+const headerSchema = z.object({
+  key: z.string(),
+  value: z.string(),
+  disabled: z.boolean().optional(),
+}).passthrough();
+
+// The schema also allows a raw "Key: Value" header block
+const headerListSchema = z.preprocess(
+  header => (typeof header === 'string' ? parseHeaderString(header) : header),
+  z.array(headerSchema)
+);
+
+const authParamsSchema = z.array(z.object({
+  key: z.string(),
+  value: z.unknown().optional().transform(toText),
+  type: z.string().optional(),
+}).passthrough());
+
+const authSchema = z.object({
+  type: z.enum(AUTH_TYPES),
+  ...Object.fromEntries(AUTH_TYPES.map(type => [type, authParamsSchema.optional()])),
+}).passthrough();
+
+// Exports write `"auth": null` for "inherit from parent", which the app expresses by leaving it out
+const optionalAuthSchema = authSchema.nullish().transform(auth => auth ?? undefined);
+
+const querySchema = z.object({
+  key: z.string().nullable().transform(key => key ?? ''),
+  value: z.string().nullable().optional().transform(value => value ?? ''),
+  disabled: z.boolean().optional(),
+}).passthrough();
+
+const urlObjectSchema = z.object({
+  raw: z.string().optional(),
+  protocol: z.string().optional(),
+  host: z.union([z.string(), z.array(z.string())]).optional(),
+  port: z.string().optional(),
+  path: z.union([z.string(), z.array(z.union([z.string(), z.object({ value: z.string().nullable() }).passthrough()]))]).optional(),
+  query: z.array(querySchema).optional(),
+  hash: z.string().optional(),
+  variable: z.array(variableSchema).optional(),
+}).passthrough().transform(url => {
+  const host = typeof url.host === 'string' ? url.host.split('.') : url.host;
+  const path = typeof url.path === 'string'
+    ? url.path.split('/').filter(Boolean)
+    : url.path?.map(segment => (typeof segment === 'string' ? segment : segment.value ?? ''));
+  if (url.raw !== undefined) return { ...url, raw: url.raw, host, path };
+
+  const query = (url.query || []).filter(q => !q.disabled).map(q => `${q.key}=${q.value}`).join('&');
+  const raw = `${url.protocol ? `${url.protocol}://` : ''}${(host || []).join('.')}${url.port ? `:${url.port}` : ''}`
+    + `${path?.length ? `/${path.join('/')}` : ''}${query ? `?${query}` : ''}${url.hash ? `#${url.hash}` : ''}`;
+  return { ...url, raw, host, path };
+});
+
+const bodySchema = z.object({
+  mode: z.enum(['raw', 'urlencoded', 'formdata', 'file', 'binary', 'graphql']),
+  raw: z.string().optional(),
+  urlencoded: z.array(z.object({
+    key: z.string(),
+    value: z.string().optional().default(''),
+    disabled: z.boolean().optional(),
+  }).passthrough()).optional(),
+  formdata: z.array(z.object({
+    key: z.string(),
+    value: z.string().optional().default(''),
+    type: z.enum(['text', 'file']).optional().default('text'),
+    disabled: z.boolean().optional(),
+  }).passthrough()).optional(),
+  graphql: z.object({
+    query: z.string().optional().default(''),
+    // Postman stores the variables as JSON text, some exporters as an object
+    variables: z.unknown().optional().transform(variables => (
+      variables == null ? undefined : typeof variables === 'string' ? variables : JSON.stringify(variables, null, 2)
+    )),
+  }).passthrough().optional(),
+  disabled: z.boolean().optional(),
+}).passthrough();
+
+const requestObjectSchema = z.object({
+  method: z.string().optional().default('GET').transform(method => method.toUpperCase()),
+  header: headerListSchema.optional().transform(header => header ?? []),
+  url: z.union([z.string(), urlObjectSchema]).optional().default(''),
+  body: bodySchema.nullish().transform(body => body ?? undefined),
+  auth: optionalAuthSchema,
+}).passthrough();
+
+// A request may be given as just its URL
+const requestSchema = z.union([
+  z.string().transform(url => ({ method: 'GET', header: [], url })),
+  requestObjectSchema,
+]);
+
+const eventSchema = z.object({
+  listen: z.string(),
+  script: z.object({
+    type: z.string().optional(),
+    exec: z.union([z.string(), z.array(z.string())]).optional().default([]),
+  }).passthrough().optional().default({}),
+  disabled: z.boolean().optional(),
+}).passthrough();
+
+const itemSchema: z.ZodType<PostmanItem, z.ZodTypeDef, unknown> = z.lazy(() => z.object({
+  name: z.string().optional(),
+  item: z.array(itemSchema).optional(),
+  request: requestSchema.optional(),
+  variable: z.array(variableSchema).optional(),
+  auth: optionalAuthSchema,
+  header: z.array(headerSchema).optional(),
+  event: z.array(eventSchema).optional(),
+  response: z.array(z.unknown()).optional(),
+}).passthrough()
+  .superRefine((item, ctx) => {
+    if (!item.request && !item.item) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Expected a "request" (for a request) or an "item" array (for a folder)' });
+    }
+  })
+  .transform(item => ({
+    ...item,
+    name: item.name ?? (item.item ? 'Untitled Folder' : 'Untitled Request'),
+  }) as PostmanItem));
+
+const collectionSchema = z.object({
+  info: z.object({
+    _postman_id: z.string().optional(),
+    name: z.string(),
+    schema: z.string().optional(),
+  }).passthrough(),
+  item: z.array(itemSchema),
+  variable: z.array(variableSchema).optional(),
+  event: z.array(eventSchema).optional(),
+  auth: optionalAuthSchema,
+  header: z.array(headerSchema).optional(),
+}).passthrough();
+
+const environmentSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().optional(),
+  values: z.array(variableSchema).optional().default([]),
+}).passthrough();
+
+// Just the fields that tell environment, globals and collection exports apart
+const fileMarkersSchema = z.object({
+  _postman_variable_scope: z.unknown(),
+  values: z.unknown(),
+  info: z.unknown(),
+}).partial();
+
+const formatPath = (path: Array<string | number>) => path
+  .map((segment, index) => (typeof segment === 'number' ? `[${segment}]` : `${index > 0 ? '.' : ''}${segment}`))
+  .join('') || 'collection';
+
+/**
+ * Zod reports a value matching no alternative of a union as "Invalid input".
+ * Report the problems inside the alternative of the right type instead, or
+ * the types that would have been accepted.
+ */
+function describeIssues(issues: z.ZodIssue[]): string[] {
+  return issues.flatMap(issue => {
+    if (issue.code !== z.ZodIssueCode.invalid_union) {
+      return [`${formatPath(issue.path)}: ${issue.message}`];
+    }
+    const isTypeMismatch = (nested: z.ZodIssue) =>
+      nested.code === z.ZodIssueCode.invalid_type && nested.path.length === issue.path.length;
+    const matching = issue.unionErrors.find(error => !error.issues.some(isTypeMismatch));
+    if (matching) return describeIssues(matching.issues);
+
+    const mismatches = issue.unionErrors.flatMap(error => error.issues.filter(isTypeMismatch)) as z.ZodInvalidTypeIssue[];
+    const expected = [...new Set(mismatches.map(mismatch => mismatch.expected))].join(' or ');
+    return [`${formatPath(issue.path)}: Expected ${expected}, received ${mismatches[0]?.received}`];
+  });
+}
+
+/**
+ * Checks a v2.1 collection and returns it in the app's shape, or throws a
+ * CollectionValidationError listing where and why the document is invalid.
+ */
+export function validateCollection(json: unknown): PostmanCollection {
+  const result = collectionSchema.safeParse(json);
+  if (!result.success) {
+    throw new CollectionValidationError(describeIssues(result.error.issues));
+  }
+  return result.data as unknown as PostmanCollection;
+}
+
+/** Checks an environment or globals export, throwing a CollectionValidationError when it is invalid. */
+export function validateEnvironment(json: unknown) {
+  const result = environmentSchema.safeParse(json);
+  if (!result.success) {
+    throw new CollectionValidationError(describeIssues(result.error.issues), 'environment');
+  }
+  return result.data;
+}
+
+export function readFileMarkers(json: unknown) {
+  const result = fileMarkersSchema.safeParse(json);
+  return result.success ? result.data : {};
+}
@@ -0,0 +1,331 @@
+import { HttpMethod, PostmanBody, PostmanHeader, PostmanItem, PostmanRequest } from '@/types/postman';
+
+const HTTP_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS'];
+
+// Options that are irrelevant to the request itself but take a value, which must not be mistaken for the URL
+const IGNORED_VALUE_OPTIONS = new Set([
+  '-o', '--output', '-m', '--max-time', '--connect-timeout', '-w', '--write-out', '--retry', '--retry-delay',
+  '--retry-max-time', '-x', '--proxy', '-U', '--proxy-user', '--cacert', '--capath', '-E', '--cert', '--key',
+  '--cert-type', '--key-type', '-c', '--cookie-jar', '--resolve', '--connect-to', '--limit-rate', '-K', '--config',
+  '-r', '--range', '-z', '--time-cond', '--interface', '--dns-servers', '-Y', '--speed-limit', '-y', '--speed-time',
+  '--max-redirs', '--max-filesize', '--trace', '--trace-ascii', '--stderr', '-D', '--dump-header', '--unix-socket',
+  '--abstract-unix-socket', '--ciphers', '--proto', '--proto-redir', '-Q', '--quote', '--pinnedpubkey', '-T', '--upload-file',
+]);
+
+// Short options that take a value; any other short option is a flag and may be grouped, as in -sSL
+const SHORT_VALUE_OPTIONS = new Set(['X', 'H', 'd', 'F', 'u', 'b', 'A', 'e', 'o', 'm', 'w', 'x', 'U', 'E', 'c', 'K', 'r', 'z', 'Y', 'y', 'D', 'Q', 'T']);
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', '\\': '\\', "'": "'", '"': '"', a: '\x07', b: '\b', e: '\x1b', f: '\f', v: '\v' };
+
+export function isCurlCommand(text: string): boolean {
+  return /^\s*(\$\s+)?curl(\.exe)?\s/i.test(text);
+}
+
+/**
+ * Splits a shell command into words the way a POSIX shell would: single
+ * quotes are literal, double quotes allow backslash escapes, $'...' strings
+ * support ANSI-C escapes, and backslash (bash) or caret (cmd.exe) line
+ * continuations are joined.
+ */
+export function tokenizeShellCommand(command: string): string[] {
+  const text = command.replace(/\\\r?\n/g, ' ').replace(/\^\r?\n/g, ' ');
+  const words: string[] = [];
+  let word = '';
+  let inWord = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (/\s/.test(char)) {
+      if (inWord) words.push(word);
+      word = '';
+      inWord = false;
+      continue;
+    }
+    inWord = true;
+
+    if (char === "'") {
+      const end = text.indexOf("'", i + 1);
+      if (end === -1) throw new Error('Unterminated single quote in cURL command');
+      word += text.slice(i + 1, end);
+      i = end;
+    } else if (char === '$' && text[i + 1] === "'") {
+      i += 2;
+      for (; i < text.length && text[i] !== "'"; i++) {
+        if (text[i] === '\\' && i + 1 < text.length) {
+          const next = text[++i];
+          if (next === 'x' && /^[0-9a-f]{1,2}/i.test(text.slice(i + 1))) {
+            const hex = /^[0-9a-f]{1,2}/i.exec(text.slice(i + 1))[0];
+            word += String.fromCharCode(parseInt(hex, 16));
+            i += hex.length;
+          } else if (next === 'u' && /^[0-9a-f]{4}/i.test(text.slice(i + 1))) {
+            word += String.fromCharCode(parseInt(text.slice(i + 1, i + 5), 16));
+            i += 4;
+          } else {
+            word += ESCAPES[next] ?? `\\${next}`;
+          }
+        } else {
+          word += text[i];
+        }
+      }
+      if (i >= text.length) throw new Error('Unterminated $\'...\' string in cURL command');
+    } else if (char === '"') {
+      i++;
+      for (; i < text.length && text[i] !== '"'; i++) {
+        // Inside double quotes a backslash only escapes characters the shell treats specially
+        if (text[i] === '\\' && '"\\$`'.includes(text[i + 1])) i++;
+        word += text[i];
+      }
+      if (i >= text.length) throw new Error('Unterminated double quote in cURL command');
+    } else if (char === '\\' && i + 1 < text.length) {
+      word += text[++i];
+    } else {
+      word += char;
+    }
+  }
+
+  if (inWord) words.push(word);
+  return words;
+}
+
+const decodeFormComponent = (value: string) => {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+  } catch {
+    return value;
+  }
+};
+
+// "a=1&b=2" style data, as sent by -d without a content type; values may contain spaces
+const isFormEncoded = (data: string) => /^[^=&\s{}[\]"]+=[^&\r\n]*(&[^=&\s]+=[^&\r\n]*)*$/.test(data);
+
+function parseHeader(value: string): PostmanHeader | null {
+  // curl sends "Name;" as an empty header and drops "Name:" entirely
+  if (/^[^:]+;$/.test(value.trim())) return { key: value.trim().slice(0, -1), value: '' };
+  const separator = value.indexOf(':');
+  if (separator <= 0) return null;
+  const headerValue = value.slice(separator + 1).trim();
+  if (!headerValue) return null;
+  return { key: value.slice(0, separator).trim(), value: headerValue };
+}
+
+/**
+ * Converts a cURL command, as copied from API docs or browser DevTools, into
+ * a request. Options that only affect how curl itself behaves are ignored.
+ */
+export function parseCurlCommand(command: string): PostmanRequest {
+  const words = tokenizeShellCommand(command.trim().replace(/^\$\s+/, ''));
+  if (!/^curl(\.exe)?$/i.test(words[0] || '')) {
+    throw new Error('Not a cURL command');
+  }
+
+  let method: string | undefined;
+  let url: string | undefined;
+  let isGet = false;
+  let isHead = false;
+  const headers: PostmanHeader[] = [];
+  const data: string[] = [];
+  const urlencoded: Array<{ key: string; value: string }> = [];
+  const formdata: NonNullable<PostmanBody['formdata']> = [];
+  const cookies: string[] = [];
+  let auth: PostmanRequest['auth'];
+
+  const applyOption = (option: string, takeValue: () => string) => {
+    switch (option) {
+      case '--url':
+        url = takeValue();
+        break;
+      case '-X':
+      case '--request':
+        method = takeValue().toUpperCase();
+        break;
+      case '-H':
+      case '--header': {
+        const header = parseHeader(takeValue());
+        if (header) headers.push(header);
+        break;
+      }
+      case '-A':
+      case '--user-agent':
+        headers.push({ key: 'User-Agent', value: takeValue() });
+        break;
+      case '-e':
+      case '--referer':
+        headers.push({ key: 'Referer', value: takeValue() });
+        break;
+      case '-b':
+      case '--cookie': {
+        // Without "=" the value names a cookie file, which can't be read here
+        const cookie = takeValue();
+        if (cookie.includes('=')) cookies.push(cookie);
+        break;
+      }
+      case '-d':
+      case '--data':
+      case '--data-ascii':
+      case '--data-binary':
+      case '--data-raw':
+        data.push(takeValue());
+        break;
+      case '--json': {
+        data.push(takeValue());
+        headers.push({ key: 'Content-Type', value: 'application/json' }, { key: 'Accept', value: 'application/json' });
+        break;
+      }
+      case '--data-urlencode': {
+        // name=content is sent as is; plain content (or =content) has no name
+        const value = takeValue();
+        const separator = value.indexOf('=');
+        if (separator > 0) {
+          urlencoded.push({ key: value.slice(0, separator), value: value.slice(separator + 1) });
+        } else {
+          urlencoded.push({ key: separator === 0 ? value.slice(1) : value, value: '' });
+        }
+        break;
+      }
+      case '-F':
+      case '--form':
+      case '--form-string': {
+        const value = takeValue();
+        const separator = value.indexOf('=');
+        if (separator <= 0) throw new Error(`Invalid form field "${value}"`);
+        const key = value.slice(0, separator);
+        const content = value.slice(separator + 1);
+        if (option !== '--form-string' && content.startsWith('@')) {
+          // Drop ;type= and ;filename= modifiers after the file path
+          formdata.push({ key, value: '', type: 'file', src: content.slice(1).split(';')[0] });
+        } else {
+          formdata.push({ key, value: option === '--form-string' ? content : content.replace(/;type=[^;]*$/, ''), type: 'text' });
+        }
+        break;
+      }
+      case '-u':
+      case '--user': {
+        const credentials = takeValue();
+        const separator = credentials.indexOf(':');
+        auth = {
+          type: 'basic',
+          basic: [
+            { key: 'username', value: separator === -1 ? credentials : credentials.slice(0, separator), type: 'string' },
+            { key: 'password', value: separator === -1 ? '' : credentials.slice(separator + 1), type: 'string' },
+          ],
+        };
+        break;
+      }
+      case '--oauth2-bearer':
+        auth = { type: 'bearer', bearer: [{ key: 'token', value: takeValue(), type: 'string' }] };
+        break;
+      case '--compressed':
+        if (!headers.some(h => h.key.toLowerCase() === 'accept-encoding')) {
+          headers.push({ key: 'Accept-Encoding', value: 'gzip, deflate, br' });
+        }
+        break;
+      case '-G':
+      case '--get':
+        isGet = true;
+        break;
+      case '-I':
+      case '--head':
+        isHead = true;
+        break;
+      default:
+        if (IGNORED_VALUE_OPTIONS.has(option)) takeValue();
+    }
+  };
+
+  for (let i = 1; i < words.length; i++) {
+    const word = words[i];
+    if (!word.startsWith('-') || word === '-') {
+      url = url ?? word;
+      continue;
+    }
+
+    let option = word;
+    let attached: string | undefined;
+    if (!word.startsWith('--')) {
+      // Short flags may be grouped (-sSL) and a value may be attached (-XPOST)
+      let c = 1;
+      for (; c < word.length && !SHORT_VALUE_OPTIONS.has(word[c]); c++) {
+        applyOption(`-${word[c]}`, () => {
+          throw new Error(`Unexpected value for -${word[c]}`);
+        });
+      }
+      if (c >= word.length) continue;
+      option = `-${word[c]}`;
+      attached = word.slice(c + 1) || undefined;
+    }
+
+    applyOption(option, () => {
+      if (attached !== undefined) return attached;
+      if (i + 1 >= words.length) throw new Error(`Missing value for ${option}`);
+      return words[++i];
+    });
+  }
+
+  if (!url) {
+    throw new Error('No URL found in the cURL command');
+  }
+  if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(url) && !url.startsWith('{{')) {
+    url = `http://${url}`;
+  }
+
+  if (cookies.length > 0) {
+    headers.push({ key: 'Cookie', value: cookies.join('; ') });
+  }
+
+  const contentType = headers.find(h => h.key.toLowerCase() === 'content-type')?.value.toLowerCase();
+  let body: PostmanBody | undefined;
+
+  if (isGet) {
+    // -G moves the data into the query string
+    const query = [...data, ...urlencoded.map(p => (p.value ? `${p.key}=${encodeURIComponent(p.value)}` : encodeURIComponent(p.key)))];
+    if (query.length) url += (url.includes('?') ? '&' : '?') + query.join('&');
+  } else if (formdata.length > 0) {
+    body = { mode: 'formdata', formdata };
+  } else if (data.length > 0 || urlencoded.length > 0) {
+    const joined = data.join('&');
+    const isForm = !contentType || contentType.includes('application/x-www-form-urlencoded');
+    if (isForm && (urlencoded.length > 0 || isFormEncoded(joined))) {
+      const pairs = joined ? joined.split('&').map(pair => {
+        const [key, ...value] = pair.split('=');
+        return { key: decodeFormComponent(key), value: decodeFormComponent(value.join('=')) };
+      }) : [];
+      body = { mode: 'urlencoded', urlencoded: [...pairs, ...urlencoded] };
+    } else {
+      let language = 'text';
+      try {
+        JSON.parse(joined);
+        language = 'json';
+      } catch {
+        if (contentType?.includes('xml')) language = 'xml';
+      }
+      body = { mode: 'raw', raw: joined, options: { raw: { language } } };
+      // curl labels -d data as a form unless told otherwise; without the header it would go out as JSON
+      if (!contentType) headers.push({ key: 'Content-Type', value: 'application/x-www-form-urlencoded' });
+    }
+  }
+
+  method = method || (isHead ? 'HEAD' : isGet || !body ? 'GET' : 'POST');
+  if (!HTTP_METHODS.includes(method as HttpMethod)) {
+    throw new Error(`Unsupported HTTP method "${method}"`);
+  }
+
+  return {
+    method: method as HttpMethod,
+    header: headers,
+    url,
+    ...(body && { body }),
+    ...(auth && { auth }),
+  };
+}
+
+// Named after the URL without its query string, as Postman does
+export function importCurlCommand(command: string): PostmanItem {
+  const request = parseCurlCommand(command);
+  const url = typeof request.url === 'string' ? request.url : request.url.raw;
+  return {
+    name: url.split('?')[0].replace(/^https?:\/\//, '') || url,
+    request,
+    response: [],
+  };
+}
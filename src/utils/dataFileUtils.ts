@@ -0,0 +1,88 @@
+export type DataRow = Record<string, string>;
+
+const stringifyCell = (value: unknown): string => {
+  if (value == null) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// Splits CSV text into rows of fields, following RFC 4180 quoting: fields may be wrapped
+// in double quotes to contain commas, line breaks and doubled "" quotes
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error('Unterminated quoted field in CSV data');
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines carry no data
+  return rows.filter(r => r.length > 1 || r[0] !== '');
+}
+
+export function parseCsvData(text: string): DataRow[] {
+  // Spreadsheet exports often start with a byte order mark
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (!header) return [];
+
+  const columns = header.map(column => column.trim());
+  return rows.map(values => Object.fromEntries(columns.map((column, index) => [column, values[index] ?? ''])));
+}
+
+export function parseJsonData(text: string): DataRow[] {
+  const json = JSON.parse(text);
+  if (!Array.isArray(json) || json.some(row => typeof row !== 'object' || row === null || Array.isArray(row))) {
+    throw new Error('JSON data file must be an array of objects');
+  }
+  return json.map(row => Object.fromEntries(Object.entries(row).map(([key, value]) => [key, stringifyCell(value)])));
+}
+
+/**
+ * Parses a runner data file into one row per iteration. JSON files must hold
+ * an array of objects; anything else is read as CSV with a header row.
+ */
+export function parseDataFile(text: string, fileName: string): DataRow[] {
+  if (fileName.toLowerCase().endsWith('.json') || /^\s*\[/.test(text)) {
+    return parseJsonData(text);
+  }
+  return parseCsvData(text);
+}
+
+export function getDataColumns(rows: DataRow[]): string[] {
+  const columns = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(column => columns.add(column)));
+  return [...columns];
+}
@@ -0,0 +1,88 @@
+export interface DynamicVariable {
+  name: string;
+  description: string;
+  generate: () => string;
+}
+
+const FIRST_NAMES = ['Ada', 'Alan', 'Grace', 'Linus', 'Margaret', 'Dennis', 'Barbara', 'Ken', 'Radia', 'Tim', 'Frances', 'Guido'];
+const LAST_NAMES = ['Lovelace', 'Turing', 'Hopper', 'Torvalds', 'Hamilton', 'Ritchie', 'Liskov', 'Thompson', 'Perlman', 'Berners-Lee', 'Allen', 'Rossum'];
+const CITIES = ['Amsterdam', 'Berlin', 'Lisbon', 'Nairobi', 'Osaka', 'Oslo', 'Portland', 'Santiago', 'Seoul', 'Toronto', 'Vienna'];
+const COUNTRIES: Array<[string, string]> = [
+  ['Brazil', 'BR'], ['Canada', 'CA'], ['France', 'FR'], ['Germany', 'DE'], ['India', 'IN'],
+  ['Israel', 'IL'], ['Japan', 'JP'], ['Kenya', 'KE'], ['Norway', 'NO'], ['Spain', 'ES'], ['United States', 'US']
+];
+const STREETS = ['Main Street', 'Oak Avenue', 'Maple Road', 'Park Lane', 'Cedar Court', 'Elm Street', 'Harbor Way'];
+const COMPANY_SUFFIXES = ['Inc', 'LLC', 'Group', 'Labs', 'Systems', 'and Sons'];
+const JOB_TITLES = ['Software Engineer', 'Product Manager', 'Data Analyst', 'Designer', 'QA Engineer', 'Support Specialist'];
+const DOMAIN_SUFFIXES = ['com', 'net', 'org', 'io', 'dev'];
+const WORDS = [
+  'alpha', 'bravo', 'cache', 'delta', 'echo', 'fabric', 'gamma', 'harbor', 'index', 'joule', 'kernel', 'lambda',
+  'matrix', 'nexus', 'orbit', 'pixel', 'quartz', 'relay', 'signal', 'vector', 'widget', 'yield', 'zenith'
+];
+const COLORS = ['red', 'orange', 'yellow', 'green', 'blue', 'indigo', 'violet', 'teal', 'magenta', 'silver'];
+const ALPHANUMERIC = 'abcdefghijklmnopqrstuvwxyz0123456789';
+
+const randomInt = (min: number, max: number): number => Math.floor(Math.random() * (max - min + 1)) + min;
+const pick = <T>(values: T[]): T => values[randomInt(0, values.length - 1)];
+const randomString = (length: number, alphabet = ALPHANUMERIC): string =>
+  Array.from({ length }, () => alphabet[randomInt(0, alphabet.length - 1)]).join('');
+const capitalize = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1);
+const randomDomain = (): string => `${pick(WORDS)}${pick(WORDS)}.${pick(DOMAIN_SUFFIXES)}`;
+const randomUserName = (): string => `${pick(FIRST_NAMES)}.${pick(LAST_NAMES)}${randomInt(1, 99)}`.toLowerCase();
+
+function generateUuid(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+    const r = randomInt(0, 15);
+    return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+  });
+}
+
+export const DYNAMIC_VARIABLES: DynamicVariable[] = [
+  { name: '$guid', description: 'A v4 style GUID', generate: generateUuid },
+  { name: '$randomUUID', description: 'A random 36-character UUID', generate: generateUuid },
+  { name: '$timestamp', description: 'The current UNIX timestamp in seconds', generate: () => String(Math.floor(Date.now() / 1000)) },
+  { name: '$isoTimestamp', description: 'The current ISO timestamp at zero UTC', generate: () => new Date().toISOString() },
+  { name: '$randomInt', description: 'A random integer between 0 and 1000', generate: () => String(randomInt(0, 1000)) },
+  { name: '$randomBoolean', description: 'A random boolean value', generate: () => String(Math.random() < 0.5) },
+  { name: '$randomAlphaNumeric', description: 'A random alphanumeric character', generate: () => randomString(1) },
+  { name: '$randomPassword', description: 'A random 15-character alphanumeric password', generate: () => randomString(15) },
+  { name: '$randomPrice', description: 'A random price between 0.00 and 1000.00', generate: () => (Math.random() * 1000).toFixed(2) },
+  { name: '$randomFirstName', description: 'A random first name', generate: () => pick(FIRST_NAMES) },
+  { name: '$randomLastName', description: 'A random last name', generate: () => pick(LAST_NAMES) },
+  { name: '$randomFullName', description: 'A random first and last name', generate: () => `${pick(FIRST_NAMES)} ${pick(LAST_NAMES)}` },
+  { name: '$randomUserName', description: 'A random username', generate: randomUserName },
+  { name: '$randomJobTitle', description: 'A random job title', generate: () => pick(JOB_TITLES) },
+  { name: '$randomEmail', description: 'A random email address', generate: () => `${randomUserName()}@${randomDomain()}` },
+  { name: '$randomExampleEmail', description: 'A random email address from an example domain', generate: () => `${randomUserName()}@example.com` },
+  { name: '$randomPhoneNumber', description: 'A random 10-digit phone number', generate: () => `${randomInt(200, 999)}-${randomInt(200, 999)}-${randomInt(1000, 9999)}` },
+  { name: '$randomStreetAddress', description: 'A random street address', generate: () => `${randomInt(1, 9999)} ${pick(STREETS)}` },
+  { name: '$randomCity', description: 'A random city name', generate: () => pick(CITIES) },
+  { name: '$randomCountry', description: 'A random country', generate: () => pick(COUNTRIES)[0] },
+  { name: '$randomCountryCode', description: 'A random 2-letter country code', generate: () => pick(COUNTRIES)[1] },
+  { name: '$randomCompanyName', description: 'A random company name', generate: () => `${capitalize(pick(WORDS))} ${pick(COMPANY_SUFFIXES)}` },
+  { name: '$randomDomainName', description: 'A random domain name', generate: randomDomain },
+  { name: '$randomUrl', description: 'A random URL', generate: () => `https://${randomDomain()}` },
+  { name: '$randomIP', description: 'A random IPv4 address', generate: () => Array.from({ length: 4 }, () => randomInt(0, 255)).join('.') },
+  { name: '$randomIPV6', description: 'A random IPv6 address', generate: () => Array.from({ length: 8 }, () => randomString(4, '0123456789abcdef')).join(':') },
+  { name: '$randomColor', description: 'A random color name', generate: () => pick(COLORS) },
+  { name: '$randomHexColor', description: 'A random hex color', generate: () => `#${randomString(6, '0123456789abcdef')}` },
+  { name: '$randomWord', description: 'A random word', generate: () => pick(WORDS) },
+  { name: '$randomWords', description: 'Some random words', generate: () => Array.from({ length: randomInt(2, 5) }, () => pick(WORDS)).join(' ') },
+  { name: '$randomLoremSentence', description: 'A random sentence', generate: () => `${capitalize(Array.from({ length: randomInt(4, 9) }, () => pick(WORDS)).join(' '))}.` },
+  { name: '$randomDatePast', description: 'A random date within the past year', generate: () => new Date(Date.now() - randomInt(1, 365) * 86400000).toISOString() },
+  { name: '$randomDateFuture', description: 'A random date within the next year', generate: () => new Date(Date.now() + randomInt(1, 365) * 86400000).toISOString() },
+];
+
+const dynamicVariablesByName = new Map(DYNAMIC_VARIABLES.map(v => [v.name, v]));
+
+export function isDynamicVariable(name: string): boolean {
+  return dynamicVariablesByName.has(name);
+}
+
+// Every occurrence gets a fresh value, as in Postman
+export function generateDynamicVariable(name: string): string | undefined {
+  return dynamicVariablesByName.get(name)?.generate();
+}
@@ -0,0 +1,185 @@
+import {
+  GraphQLField,
+  GraphQLInputType,
+  GraphQLNamedType,
+  GraphQLObjectType,
+  GraphQLSchema,
+  IntrospectionQuery,
+  buildClientSchema,
+  buildSchema,
+  getIntrospectionQuery,
+  getNamedType,
+  isEnumType,
+  isInputObjectType,
+  isInterfaceType,
+  isLeafType,
+  isListType,
+  isNonNullType,
+  isObjectType,
+  isRequiredArgument,
+  isRequiredInputField,
+  isUnionType,
+} from 'graphql';
+import { PostmanCollection, PostmanHeader, PostmanItem } from '@/types/postman';
+import { createNewCollection, createNewFolder } from '@/utils/postmanUtils';
+
+export interface GraphqlImportOptions {
+  // How many levels of object fields each generated selection set reaches into
+  depth: number;
+  endpoint?: string;
+  header?: PostmanHeader[];
+}
+
+export const DEFAULT_SELECTION_DEPTH = 2;
+
+export const INTROSPECTION_QUERY = getIntrospectionQuery();
+
+const INDENT = '  ';
+
+/**
+ * Builds a schema from an introspection result, either the full response
+ * (`{ data: { __schema } }`) or just its data, or from SDL.
+ */
+export function parseGraphqlSchema(source: unknown): GraphQLSchema {
+  let json = source;
+  if (typeof source === 'string') {
+    const text = source.trim();
+    if (!text.startsWith('{')) {
+      // Federation and other server-side directives are not declared in most published SDL
+      return buildSchema(text, { assumeValidSDL: true });
+    }
+    json = JSON.parse(text);
+  }
+
+  const response = json as { data?: IntrospectionQuery; errors?: Array<{ message?: string }>; __schema?: unknown };
+  if (response?.errors?.length && !response.data) {
+    throw new Error(`Introspection failed: ${response.errors.map(error => error.message).join('; ')}`);
+  }
+  const introspection = (response?.data ?? response) as IntrospectionQuery;
+  if (!introspection?.__schema) {
+    throw new Error('Not a GraphQL introspection result: __schema is missing');
+  }
+  return buildClientSchema(introspection);
+}
+
+function exampleValue(type: GraphQLInputType, seen: Set<string> = new Set()): unknown {
+  if (isNonNullType(type)) return exampleValue(type.ofType, seen);
+  if (isListType(type)) return [exampleValue(type.ofType, seen)];
+  if (isEnumType(type)) return type.getValues()[0]?.name ?? null;
+  if (isInputObjectType(type)) {
+    // Recursive input types only get their required fields filled once
+    if (seen.has(type.name)) return {};
+    const nested = new Set([...seen, type.name]);
+    return Object.fromEntries(Object.values(type.getFields())
+      .filter(isRequiredInputField)
+      .map(field => [field.name, exampleValue(field.type, nested)]));
+  }
+  switch (type.name) {
+    case 'Int':
+    case 'Float':
+      return 0;
+    case 'Boolean':
+      return false;
+    default:
+      return '';
+  }
+}
+
+/**
+ * The selection lines for an object, interface or union type. Object fields
+ * below the depth limit and fields that need arguments are left out, and
+ * `__typename` stands in when nothing else can be selected.
+ */
+function selectFields(type: GraphQLNamedType, depth: number, indent: string): string[] {
+  if (isUnionType(type)) {
+    return [`${indent}__typename`, ...type.getTypes().map(member => (
+      `${indent}... on ${member.name} {\n${selectFields(member, depth, `${indent}${INDENT}`).join('\n')}\n${indent}}`
+    ))];
+  }
+  if (!isObjectType(type) && !isInterfaceType(type)) return [];
+
+  const lines = Object.values(type.getFields())
+    .filter(field => !field.args.some(isRequiredArgument))
+    .flatMap(field => {
+      const fieldType = getNamedType(field.type);
+      if (isLeafType(fieldType)) return [`${indent}${field.name}`];
+      if (depth <= 1) return [];
+      const nested = selectFields(fieldType, depth - 1, `${indent}${INDENT}`);
+      return [`${indent}${field.name} {\n${nested.join('\n')}\n${indent}}`];
+    });
+  return lines.length > 0 ? lines : [`${indent}__typename`];
+}
+
+function buildOperation(
+  operation: 'query' | 'mutation',
+  field: GraphQLField<unknown, unknown>,
+  depth: number
+): { query: string; variables?: string } {
+  const definitions = field.args.map(arg => `$${arg.name}: ${arg.type.toString()}`);
+  const args = field.args.map(arg => `${arg.name}: $${arg.name}`);
+  const returnType = getNamedType(field.type);
+  const selection = isLeafType(returnType)
+    ? ''
+    : ` {\n${selectFields(returnType, Math.max(1, depth), `${INDENT}${INDENT}`).join('\n')}\n${INDENT}}`;
+
+  const query = [
+    `${operation} ${field.name}${definitions.length ? `(${definitions.join(', ')})` : ''} {`,
+    `${INDENT}${field.name}${args.length ? `(${args.join(', ')})` : ''}${selection}`,
+    '}',
+  ].join('\n');
+
+  // Required arguments get a placeholder of the right shape; optional ones can be added by hand
+  const required = field.args.filter(isRequiredArgument);
+  const variables = required.length
+    ? JSON.stringify(Object.fromEntries(required.map(arg => [arg.name, exampleValue(arg.type)])), null, 2)
+    : undefined;
+  return { query, ...(variables && { variables }) };
+}
+
+function operationFolder(
+  name: string,
+  operation: 'query' | 'mutation',
+  root: GraphQLObjectType | null | undefined,
+  depth: number
+): PostmanItem | null {
+  const fields = Object.values(root?.getFields() || {});
+  if (fields.length === 0) return null;
+  return {
+    ...createNewFolder(name),
+    item: fields.map(field => ({
+      name: field.name,
+      request: {
+        method: 'POST',
+        header: [],
+        url: '{{baseUrl}}',
+        body: { mode: 'graphql', graphql: buildOperation(operation, field, depth) },
+      },
+      response: [],
+    })),
+  };
+}
+
+/**
+ * Generates a collection with a request per query and mutation field, each
+ * posting to the `baseUrl` collection variable. Subscriptions need a
+ * websocket and are not included.
+ */
+export function convertGraphqlSchema(schema: GraphQLSchema, options: GraphqlImportOptions, name = 'GraphQL API'): PostmanCollection {
+  const collection = createNewCollection(name);
+  collection.item = [
+    operationFolder('Queries', 'query', schema.getQueryType(), options.depth),
+    operationFolder('Mutations', 'mutation', schema.getMutationType(), options.depth),
+  ].filter((folder): folder is PostmanItem => folder !== null);
+
+  if (collection.item.length === 0) {
+    throw new Error('The schema has no queries or mutations');
+  }
+  collection.variable = [{ key: 'baseUrl', value: options.endpoint || '', type: 'default' }];
+  if (options.header?.length) collection.header = options.header;
+  return collection;
+}
+
+export function countGraphqlOperations(schema: GraphQLSchema): number {
+  return Object.keys(schema.getQueryType()?.getFields() || {}).length
+    + Object.keys(schema.getMutationType()?.getFields() || {}).length;
+}
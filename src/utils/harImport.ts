@@ -0,0 +1,196 @@
+import { HttpMethod, PostmanBody, PostmanCollection, PostmanHeader, PostmanItem, PostmanRequest } from '@/types/postman';
+import { createNewCollection, createNewFolder, uniqueItemName } from '@/utils/postmanUtils';
+
+interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+interface HarPostData {
+  mimeType?: string;
+  text?: string;
+  params?: Array<HarNameValue & { fileName?: string; contentType?: string }>;
+}
+
+export interface HarEntry {
+  startedDateTime?: string;
+  request: {
+    method: string;
+    url: string;
+    headers?: HarNameValue[];
+    postData?: HarPostData;
+  };
+  response?: {
+    status: number;
+    statusText?: string;
+    headers?: HarNameValue[];
+    content?: { mimeType?: string; text?: string; encoding?: string };
+  };
+  // Chrome DevTools records what kind of resource the entry loaded
+  _resourceType?: string;
+}
+
+export interface HarLog {
+  log: {
+    version?: string;
+    entries: HarEntry[];
+  };
+}
+
+export interface HarImportOptions {
+  skipStaticAssets: boolean;
+  dedupe: boolean;
+  saveResponses: boolean;
+}
+
+const METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS'];
+
+const STATIC_RESOURCE_TYPES = new Set(['image', 'stylesheet', 'script', 'font', 'media', 'manifest', 'texttrack']);
+const STATIC_EXTENSIONS = /\.(js|mjs|css|map|png|jpe?g|gif|svg|ico|webp|avif|bmp|woff2?|ttf|otf|eot|mp4|webm|mp3|wav|ogg)$/i;
+const STATIC_MIME_TYPES = /^(image|font|audio|video)\/|^text\/css|javascript/i;
+
+// Set by the browser or the network stack rather than the page, so replaying them is wrong or impossible
+const SKIPPED_HEADERS = new Set(['host', 'content-length', 'connection']);
+
+export function isHarLog(json: unknown): json is HarLog {
+  return Array.isArray((json as HarLog)?.log?.entries);
+}
+
+export function isStaticAsset(entry: HarEntry): boolean {
+  if (entry._resourceType && STATIC_RESOURCE_TYPES.has(entry._resourceType)) return true;
+  let pathname = '';
+  try {
+    pathname = new URL(entry.request.url).pathname;
+  } catch {
+    return false;
+  }
+  return STATIC_EXTENSIONS.test(pathname) || STATIC_MIME_TYPES.test(entry.response?.content?.mimeType || '');
+}
+
+const entryKey = (entry: HarEntry) =>
+  `${entry.request.method.toUpperCase()} ${entry.request.url}\n${entry.request.postData?.text ?? JSON.stringify(entry.request.postData?.params || [])}`;
+
+/**
+ * The entries that would be imported: replayable HTTP(S) requests, optionally
+ * without static assets and with repeated identical calls (same method, URL
+ * and body) reduced to their first occurrence.
+ */
+export function filterHarEntries(har: HarLog, options: Pick<HarImportOptions, 'skipStaticAssets' | 'dedupe'>): HarEntry[] {
+  const seen = new Set<string>();
+  return har.log.entries.filter(entry => {
+    if (!/^https?:/i.test(entry.request?.url || '')) return false;
+    if (!METHODS.includes(entry.request.method.toUpperCase() as HttpMethod)) return false;
+    if (options.skipStaticAssets && isStaticAsset(entry)) return false;
+    if (options.dedupe) {
+      const key = entryKey(entry);
+      if (seen.has(key)) return false;
+      seen.add(key);
+    }
+    return true;
+  });
+}
+
+const decode = (value: string) => {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+  } catch {
+    return value;
+  }
+};
+
+function toBody(postData: HarPostData | undefined): PostmanBody | undefined {
+  if (!postData || (!postData.text && !postData.params?.length)) return undefined;
+  const mimeType = postData.mimeType || '';
+
+  if (mimeType.includes('application/x-www-form-urlencoded') && postData.params?.length) {
+    return {
+      mode: 'urlencoded',
+      urlencoded: postData.params.map(p => ({ key: decode(p.name), value: decode(p.value || '') })),
+    };
+  }
+  if (mimeType.startsWith('multipart/form-data') && postData.params?.length) {
+    return {
+      mode: 'formdata',
+      formdata: postData.params.map(p => (p.fileName
+        ? { key: p.name, value: '', type: 'file', src: p.fileName }
+        : { key: p.name, value: p.value || '', type: 'text' })),
+    };
+  }
+  return {
+    mode: 'raw',
+    raw: postData.text || '',
+    options: { raw: { language: mimeType.includes('json') ? 'json' : mimeType.includes('xml') ? 'xml' : 'text' } },
+  };
+}
+
+function toRequest(entry: HarEntry): PostmanRequest {
+  const body = toBody(entry.request.postData);
+  const header: PostmanHeader[] = (entry.request.headers || [])
+    // HTTP/2 pseudo headers such as :authority have no place in a request definition
+    .filter(h => !h.name.startsWith(':') && !SKIPPED_HEADERS.has(h.name.toLowerCase()))
+    // fetch sets the multipart boundary, so a recorded one would no longer match the body
+    .filter(h => body?.mode !== 'formdata' || h.name.toLowerCase() !== 'content-type')
+    .map(h => ({ key: h.name, value: h.value }));
+
+  return {
+    method: entry.request.method.toUpperCase() as HttpMethod,
+    header,
+    url: entry.request.url,
+    ...(body && { body }),
+  };
+}
+
+function toResponseExample(entry: HarEntry, request: PostmanRequest) {
+  const { response } = entry;
+  const mimeType = response.content?.mimeType || '';
+  const isText = /^text\/|json|xml|javascript|x-www-form-urlencoded/i.test(mimeType);
+  let body = response.content?.text || '';
+  if (response.content?.encoding === 'base64') {
+    // Binary bodies can't be shown as an example, but base64 encoded text can be decoded
+    body = isText ? new TextDecoder().decode(Uint8Array.from(atob(body), c => c.charCodeAt(0))) : '';
+  }
+
+  return {
+    name: `${response.status} ${response.statusText || ''}`.trim(),
+    originalRequest: request,
+    status: response.statusText || '',
+    code: response.status,
+    _postman_previewlanguage: mimeType.includes('json') ? 'json' : mimeType.includes('html') ? 'html' : mimeType.includes('xml') ? 'xml' : 'text',
+    header: (response.headers || []).map(h => ({ key: h.name, value: h.value })),
+    body,
+  };
+}
+
+/**
+ * Converts a HAR 1.2 log, such as a DevTools "Save all as HAR" export, into a
+ * collection with one folder per host and one request per recorded entry.
+ */
+export function convertHarToCollection(har: HarLog, options: HarImportOptions, name = 'HAR Import'): PostmanCollection {
+  if (!isHarLog(har)) {
+    throw new Error('Not a HAR file: log.entries is missing');
+  }
+
+  const collection = createNewCollection(name);
+  const folders = new Map<string, PostmanItem>();
+
+  filterHarEntries(har, options).forEach(entry => {
+    const url = new URL(entry.request.url);
+    if (!folders.has(url.host)) {
+      const folder = createNewFolder(url.host);
+      folders.set(url.host, folder);
+      collection.item.push(folder);
+    }
+    const folder = folders.get(url.host);
+
+    const request = toRequest(entry);
+    // Aborted requests are recorded with status 0 and have no response worth keeping
+    const hasResponse = options.saveResponses && !!entry.response && entry.response.status > 0;
+    folder.item.push({
+      name: uniqueItemName(folder.item, `${request.method} ${url.pathname}`),
+      request,
+      response: hasResponse ? [toResponseExample(entry, request)] : [],
+    });
+  });
+
+  return collection;
+}
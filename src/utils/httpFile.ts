@@ -0,0 +1,242 @@
+import { HttpMethod, PostmanAuth, PostmanBody, PostmanCollection, PostmanHeader, PostmanItem, PostmanRequest, PostmanVariable } from '@/types/postman';
+import { applyInheritedSettings, createNewCollection, uniqueItemName } from '@/utils/postmanUtils';
+import { fillPathVariables } from '@/utils/variableUtils';
+
+/**
+ * The `.http` request file format shared by VS Code's REST Client and the
+ * JetBrains HTTP Client: requests separated by `###` lines, each a request
+ * line, headers and an optional body after a blank line. `@name = value`
+ * lines declare file variables, which map to collection variables.
+ */
+
+export const HTTP_FILE_EXTENSIONS = ['.http', '.rest'];
+
+const METHODS = new Set(['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS', 'TRACE', 'CONNECT']);
+
+const BOUNDARY = 'ApiForgeBoundary';
+
+export const isHttpFileName = (name: string) => HTTP_FILE_EXTENSIONS.some(extension => name.toLowerCase().endsWith(extension));
+
+const isComment = (line: string) => /^\s*(#|\/\/)/.test(line);
+
+function languageOf(header: PostmanHeader[]): string {
+  const contentType = header.find(h => h.key.toLowerCase() === 'content-type')?.value || '';
+  return contentType.includes('json') ? 'json' : contentType.includes('xml') ? 'xml' : 'text';
+}
+
+/**
+ * "Basic user:password" (or "Basic user password") is the files' shorthand for
+ * credentials that still need encoding; base64 never contains a colon or space.
+ */
+function toBasicAuth(value: string): PostmanAuth | undefined {
+  const credentials = value.match(/^Basic\s+(.+)$/i)?.[1].trim();
+  const separator = credentials?.search(/[: ]/) ?? -1;
+  if (separator === -1) return undefined;
+  return {
+    type: 'basic',
+    basic: [
+      { key: 'username', value: credentials.slice(0, separator), type: 'string' },
+      { key: 'password', value: credentials.slice(separator + 1).trim(), type: 'string' },
+    ],
+  };
+}
+
+interface ParsedRequest {
+  name?: string;
+  httpFile?: PostmanItem['httpFile'];
+  request: PostmanRequest;
+}
+
+function parseRequestBlock(lines: string[], title: string, variables: PostmanVariable[]): ParsedRequest | null {
+  let annotated: string | undefined;
+  let i = 0;
+
+  // Variables, comments and annotations come before the request line
+  for (; i < lines.length; i++) {
+    const line = lines[i].trim();
+    const annotation = line.match(/^(?:#|\/\/)\s*@name\s+(.+)$/);
+    const variable = line.match(/^@([\w.-]+)\s*=\s*(.*)$/);
+    if (annotation) {
+      annotated = annotation[1].trim();
+    } else if (variable) {
+      variables.push({ key: variable[1], value: variable[2].trim() });
+    } else if (line.startsWith('< {%')) {
+      // A JetBrains pre-request script, which has no equivalent here
+      while (i < lines.length && !lines[i].includes('%}')) i++;
+    } else if (line && !isComment(line)) {
+      break;
+    }
+  }
+  if (i >= lines.length) return null;
+
+  const [first, ...rest] = lines[i].trim().split(/\s+/);
+  const hasMethod = METHODS.has(first.toUpperCase()) && rest.length > 0;
+  const isVersion = (part: string) => /^HTTP\/[\d.]+$/i.test(part);
+  const target = hasMethod ? rest : [first, ...rest];
+  const httpVersion = target.find(isVersion);
+  let url = target.filter(part => !isVersion(part)).join(' ');
+  // Long query strings may continue on indented lines starting with ? or &
+  for (i++; i < lines.length && /^\s+[?&]/.test(lines[i]); i++) {
+    url += lines[i].trim();
+  }
+
+  const header: PostmanHeader[] = [];
+  let auth: PostmanAuth | undefined;
+  for (; i < lines.length && lines[i].trim(); i++) {
+    if (isComment(lines[i])) continue;
+    const separator = lines[i].indexOf(':');
+    if (separator <= 0) continue;
+    const key = lines[i].slice(0, separator).trim();
+    const value = lines[i].slice(separator + 1).trim();
+    const basicAuth = key.toLowerCase() === 'authorization' ? toBasicAuth(value) : undefined;
+    if (basicAuth) auth = basicAuth;
+    else header.push({ key, value });
+  }
+
+  // The body runs to the end of the block, up to a response handler or output redirect
+  const bodyLines = lines.slice(i + 1);
+  const end = bodyLines.findIndex(line => /^(>\s|>>!?\s|<>\s)/.test(line));
+  const raw = (end === -1 ? bodyLines : bodyLines.slice(0, end)).join('\n').replace(/^\n+|\s+$/g, '');
+  const body: PostmanBody | undefined = raw ? { mode: 'raw', raw, options: { raw: { language: languageOf(header) } } } : undefined;
+
+  // With a "# @name" the "### title" is only a label, kept so the file saves back unchanged
+  const httpFile = { ...(annotated && title && { title }), ...(httpVersion && { httpVersion }) };
+  return {
+    name: annotated || title || undefined,
+    ...(Object.keys(httpFile).length > 0 && { httpFile }),
+    request: {
+      method: (hasMethod ? first.toUpperCase() : 'GET') as HttpMethod,
+      header,
+      url,
+      ...(body && { body }),
+      ...(auth && { auth }),
+    },
+  };
+}
+
+/** Parses a `.http` file into a flat collection named after the file. */
+export function parseHttpFile(text: string, fileName: string): PostmanCollection {
+  const collection = createNewCollection(fileName.replace(/\.(http|rest)$/i, '') || 'HTTP File');
+  const variables: PostmanVariable[] = [];
+
+  const blocks: Array<{ title: string; lines: string[] }> = [{ title: '', lines: [] }];
+  text.split(/\r?\n/).forEach(line => {
+    const separator = line.match(/^###(.*)$/);
+    if (separator) blocks.push({ title: separator[1].trim(), lines: [] });
+    else blocks[blocks.length - 1].lines.push(line);
+  });
+
+  blocks.forEach(block => {
+    const parsed = parseRequestBlock(block.lines, block.title, variables);
+    if (!parsed) return;
+    const { request } = parsed;
+    // Named after the path, without the origin or a {{baseUrl}} style variable standing in for it
+    const path = String(request.url).replace(/^([a-z]+:\/\/[^/]+|\{\{[^}]+\}\})/i, '').split('?')[0] || '/';
+    collection.item.push({
+      name: uniqueItemName(collection.item, parsed.name || `${request.method} ${path}`),
+      ...(parsed.httpFile && { httpFile: parsed.httpFile }),
+      request,
+      response: [],
+    });
+  });
+
+  if (collection.item.length === 0) {
+    throw new Error('No requests found in the HTTP file');
+  }
+  // A later declaration of the same variable wins, like in the editors
+  const declared = new Map(variables.map(variable => [variable.key, variable]));
+  if (declared.size > 0) collection.variable = [...declared.values()];
+  return collection;
+}
+
+function authHeader(auth: PostmanAuth | undefined): PostmanHeader | undefined {
+  const value = (key: string) => auth?.[auth.type]?.find(param => param.key === key)?.value || '';
+  switch (auth?.type) {
+    case 'bearer':
+      return { key: 'Authorization', value: `Bearer ${value('token')}` };
+    case 'oauth2':
+      return { key: 'Authorization', value: `Bearer ${value('accessToken')}` };
+    case 'basic':
+      return { key: 'Authorization', value: `Basic ${value('username')}:${value('password')}` };
+    case 'apikey':
+      return value('in') === 'query' ? undefined : { key: value('key'), value: value('value') };
+    default:
+      return undefined;
+  }
+}
+
+function serializeBody(body: PostmanBody | undefined, header: PostmanHeader[]): string {
+  const hasContentType = header.some(h => h.key.toLowerCase() === 'content-type');
+  if (body?.mode === 'raw') return body.raw || '';
+  if (body?.mode === 'urlencoded') {
+    if (!hasContentType) header.push({ key: 'Content-Type', value: 'application/x-www-form-urlencoded' });
+    return (body.urlencoded || []).filter(p => !p.disabled && p.key).map(p => `${p.key}=${p.value}`).join('&');
+  }
+  if (body?.mode === 'formdata') {
+    const fields = (body.formdata || []).filter(p => !p.disabled && p.key);
+    if (fields.length === 0) return '';
+    const index = header.findIndex(h => h.key.toLowerCase() === 'content-type');
+    if (index !== -1) header.splice(index, 1);
+    header.push({ key: 'Content-Type', value: `multipart/form-data; boundary=${BOUNDARY}` });
+    // "< path" includes a file's content in both editors
+    const parts = fields.map(p => (p.type === 'file'
+      ? `--${BOUNDARY}\nContent-Disposition: form-data; name="${p.key}"; filename="${(p.src || '').split(/[\\/]/).pop()}"\n\n< ${p.src || ''}`
+      : `--${BOUNDARY}\nContent-Disposition: form-data; name="${p.key}"\n\n${p.value}`));
+    return `${parts.join('\n')}\n--${BOUNDARY}--`;
+  }
+  if (body?.mode === 'graphql' && body.graphql?.query) {
+    // Sent as JSON; the editors' own GraphQL syntax differs between them
+    if (!hasContentType) header.push({ key: 'Content-Type', value: 'application/json' });
+    let variables: unknown;
+    try {
+      variables = body.graphql.variables?.trim() ? JSON.parse(body.graphql.variables) : undefined;
+    } catch {
+      variables = undefined;
+    }
+    return JSON.stringify({ query: body.graphql.query, ...(variables !== undefined && { variables }) }, null, 2);
+  }
+  return '';
+}
+
+function serializeRequest(collection: PostmanCollection, path: string[], item: PostmanItem): string {
+  // .http files have no folders, so each request carries the auth and headers it inherits
+  const request = applyInheritedSettings(collection, path, item.request);
+  const header = request.header.filter(h => !h.disabled && h.key);
+  const auth = authHeader(request.auth);
+  if (auth && !header.some(h => h.key.toLowerCase() === auth.key.toLowerCase())) header.push(auth);
+
+  // The files have no path variables, so their values are written into the path
+  let url = typeof request.url === 'string' ? request.url : fillPathVariables(request.url?.raw || '', request.url?.variable);
+  const apiKey = request.auth?.type === 'apikey' ? request.auth.apikey : undefined;
+  if (apiKey?.find(p => p.key === 'in')?.value === 'query') {
+    const setting = (key: string) => apiKey.find(p => p.key === key)?.value || '';
+    url += `${url.includes('?') ? '&' : '?'}${setting('key')}=${setting('value')}`;
+  }
+  const body = serializeBody(request.body, header);
+
+  const { title: label, httpVersion } = item.httpFile || {};
+  const title = label
+    ? `### ${label}\n# @name ${item.name}`
+    : /^[\w-]+$/.test(item.name) ? `###\n# @name ${item.name}` : `### ${item.name}`;
+  return [
+    title,
+    `${request.method} ${url}${httpVersion ? ` ${httpVersion}` : ''}`,
+    ...header.map(h => `${h.key}: ${h.value}`),
+    ...(body ? ['', body] : []),
+  ].join('\n');
+}
+
+/** Writes a collection as a `.http` file; folders are flattened in order. */
+export function serializeHttpFile(collection: PostmanCollection): string {
+  const requests: string[] = [];
+  const walk = (items: PostmanItem[], path: string[]) => items.forEach(item => {
+    if (item.item) walk(item.item, [...path, item.name]);
+    else if (item.request) requests.push(serializeRequest(collection, [...path, item.name], item));
+  });
+  walk(collection.item, []);
+
+  const variables = (collection.variable || [])
+    .filter(v => v.key && !v.disabled)
+    .map(v => `@${v.key} = ${v.value ?? ''}`);
+  return [...(variables.length ? [variables.join('\n')] : []), ...requests].join('\n\n') + '\n';
+}
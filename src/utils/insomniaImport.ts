@@ -0,0 +1,276 @@
+import { HttpMethod, PostmanAuth, PostmanBody, PostmanCollection, PostmanEnvironment, PostmanEvent, PostmanHeader, PostmanItem, PostmanRequest, PostmanVariable } from '@/types/postman';
+import { createNewCollection, createNewFolder, parsePostmanEnvironment, uniqueItemName } from '@/utils/postmanUtils';
+
+interface InsomniaNameValue {
+  name: string;
+  value?: string;
+  disabled?: boolean;
+}
+
+interface InsomniaResource {
+  _id: string;
+  _type: string;
+  parentId: string | null;
+  name?: string;
+  description?: string;
+  metaSortKey?: number;
+  // Requests
+  url?: string;
+  method?: string;
+  headers?: InsomniaNameValue[];
+  parameters?: InsomniaNameValue[];
+  body?: {
+    mimeType?: string | null;
+    text?: string;
+    params?: Array<InsomniaNameValue & { type?: string; fileName?: string }>;
+  };
+  preRequestScript?: string;
+  afterResponseScript?: string;
+  // Requests and, since Insomnia 8, request groups
+  authentication?: Record<string, string | boolean | undefined> & { type?: string; disabled?: boolean };
+  // Request groups carry folder variables, environments their values
+  environment?: Record<string, unknown>;
+  data?: Record<string, unknown>;
+}
+
+export interface InsomniaExport {
+  _type: 'export';
+  __export_format: number;
+  resources: InsomniaResource[];
+}
+
+export interface InsomniaImport {
+  collections: PostmanCollection[];
+  environments: PostmanEnvironment[];
+}
+
+export function isInsomniaExport(json: unknown): json is InsomniaExport {
+  return (json as InsomniaExport)?._type === 'export' && Array.isArray((json as InsomniaExport).resources);
+}
+
+// Insomnia's built-in template tags that have an equivalent dynamic variable
+const TEMPLATE_TAGS: Array<[RegExp, string]> = [
+  [/\{%\s*uuid(?:\s+['"]v4['"])?\s*%\}/g, '{{$guid}}'],
+  [/\{%\s*now\s+['"]iso-8601['"][^%]*%\}/g, '{{$isoTimestamp}}'],
+  [/\{%\s*now\s+['"]unix['"][^%]*%\}/g, '{{$timestamp}}'],
+];
+
+/**
+ * Rewrites Insomnia's Nunjucks variable references, `{{ _.name }}`,
+ * `{{ _['name'] }}` or the older `{{ name }}`, to the `{{name}}` form the
+ * resolver understands. Nested values are addressed with dots, matching the
+ * flattened environment keys. Filters and other template tags are left as is.
+ */
+export function rewriteInsomniaTemplates(text: string): string {
+  const rewritten = text
+    .replace(/\{\{\s*(?:_\.)?([\w$][\w$.-]*)\s*\}\}/g, '{{$1}}')
+    .replace(/\{\{\s*_\[\s*(['"])(.+?)\1\s*\]\s*\}\}/g, '{{$2}}');
+  return TEMPLATE_TAGS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), rewritten);
+}
+
+// Nested environment data such as { auth: { token } } becomes the variable "auth.token"
+function flattenData(data: Record<string, unknown> = {}, prefix = ''): PostmanVariable[] {
+  return Object.entries(data).flatMap(([key, value]) => {
+    const name = `${prefix}${key}`;
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return flattenData(value as Record<string, unknown>, `${name}.`);
+    }
+    const text = typeof value === 'string' ? rewriteInsomniaTemplates(value) : value == null ? '' : JSON.stringify(value);
+    return [{ key: name, value: text, type: 'default' }];
+  });
+}
+
+const byMetaSortKey = (a: InsomniaResource, b: InsomniaResource) => (a.metaSortKey ?? 0) - (b.metaSortKey ?? 0);
+
+const toPairs = (values: InsomniaNameValue[] = []) => values
+  .filter(v => v.name)
+  .map(v => ({
+    key: rewriteInsomniaTemplates(v.name),
+    value: rewriteInsomniaTemplates(v.value || ''),
+    ...(v.disabled && { disabled: true }),
+  }));
+
+function toAuth(authentication: InsomniaResource['authentication']): PostmanAuth | undefined {
+  if (!authentication?.type || authentication.disabled) return undefined;
+  const text = (key: string) => rewriteInsomniaTemplates(String(authentication[key] ?? ''));
+
+  switch (authentication.type) {
+    case 'none':
+      return { type: 'noauth' };
+    case 'bearer':
+      return { type: 'bearer', bearer: [{ key: 'token', value: text('token'), type: 'string' }] };
+    case 'basic':
+      return {
+        type: 'basic',
+        basic: [
+          { key: 'username', value: text('username'), type: 'string' },
+          { key: 'password', value: text('password'), type: 'string' },
+        ],
+      };
+    case 'apikey':
+      // Cookie API keys have no equivalent and fall back to the parent's auth
+      if (authentication.addTo === 'cookie') return undefined;
+      return {
+        type: 'apikey',
+        apikey: [
+          { key: 'key', value: text('key'), type: 'string' },
+          { key: 'value', value: text('value'), type: 'string' },
+          { key: 'in', value: authentication.addTo === 'queryParams' ? 'query' : 'header', type: 'string' },
+        ],
+      };
+    case 'oauth2':
+      return {
+        type: 'oauth2',
+        oauth2: [
+          { key: 'accessToken', value: text('accessToken'), type: 'string' },
+          { key: 'addTokenTo', value: 'header', type: 'string' },
+        ],
+      };
+    default:
+      return undefined;
+  }
+}
+
+function toBody(body: InsomniaResource['body']): PostmanBody | undefined {
+  const mimeType = body?.mimeType || '';
+  if (mimeType === 'application/x-www-form-urlencoded') {
+    return body.params?.length ? { mode: 'urlencoded', urlencoded: toPairs(body.params) } : undefined;
+  }
+  if (mimeType === 'multipart/form-data') {
+    return body.params?.length
+      ? {
+        mode: 'formdata',
+        formdata: body.params.filter(p => p.name).map(p => ({
+          key: rewriteInsomniaTemplates(p.name),
+          ...(p.type === 'file'
+            ? { value: '', type: 'file', src: p.fileName || '' }
+            : { value: rewriteInsomniaTemplates(p.value || ''), type: 'text' }),
+          ...(p.disabled && { disabled: true }),
+        })),
+      }
+      : undefined;
+  }
+  if (!body?.text) return undefined;
+  if (mimeType === 'application/graphql') {
+    // Stored as the JSON payload that gets sent, { query, variables }
+    try {
+      const { query, variables } = JSON.parse(body.text) as { query?: string; variables?: unknown };
+      return {
+        mode: 'graphql',
+        graphql: {
+          query: rewriteInsomniaTemplates(query || ''),
+          ...(variables != null && { variables: rewriteInsomniaTemplates(JSON.stringify(variables, null, 2)) }),
+        },
+      };
+    } catch {
+      // Not valid JSON, keep the text as a raw body
+    }
+  }
+  const language = mimeType.includes('json') || mimeType === 'application/graphql' ? 'json' : mimeType.includes('xml') ? 'xml' : 'text';
+  return { mode: 'raw', raw: rewriteInsomniaTemplates(body.text), options: { raw: { language } } };
+}
+
+// Insomnia's script API mirrors Postman's under the `insomnia` name
+function toEvents(resource: InsomniaResource): PostmanEvent[] {
+  return ([['prerequest', resource.preRequestScript], ['test', resource.afterResponseScript]] as const)
+    .filter(([, script]) => script?.trim())
+    .map(([listen, script]) => ({
+      listen,
+      script: { type: 'text/javascript', exec: script.replace(/\binsomnia\./g, 'pm.').split('\n') },
+    }));
+}
+
+function toRequest(resource: InsomniaResource): PostmanRequest {
+  const body = toBody(resource.body);
+  const header: PostmanHeader[] = toPairs(resource.headers)
+    // fetch sets the multipart boundary itself
+    .filter(h => body?.mode !== 'formdata' || h.key.toLowerCase() !== 'content-type');
+  if (body?.mode === 'raw' && resource.body?.mimeType === 'application/graphql' && !header.some(h => h.key.toLowerCase() === 'content-type')) {
+    header.push({ key: 'Content-Type', value: 'application/json' });
+  }
+
+  const query = toPairs(resource.parameters).filter(p => !p.disabled).map(p => `${p.key}=${p.value}`);
+  const url = rewriteInsomniaTemplates(resource.url || '');
+  const auth = toAuth(resource.authentication);
+
+  return {
+    method: (resource.method || 'GET').toUpperCase() as HttpMethod,
+    header,
+    url: query.length ? `${url}${url.includes('?') ? '&' : '?'}${query.join('&')}` : url,
+    ...(body && { body }),
+    ...(auth && { auth }),
+  };
+}
+
+/**
+ * Converts an Insomnia v4 export: each workspace becomes a collection with a
+ * folder per request group. The base environment, which Insomnia always
+ * applies, becomes the collection's variables, and each sub environment
+ * becomes an environment.
+ */
+export function convertInsomniaExport(data: InsomniaExport): InsomniaImport {
+  if (!isInsomniaExport(data)) {
+    throw new Error('Not an Insomnia export: resources are missing');
+  }
+  if (data.__export_format !== 4) {
+    throw new Error(`Unsupported Insomnia export format ${data.__export_format}, only version 4 can be imported`);
+  }
+
+  const children = new Map<string, InsomniaResource[]>();
+  data.resources.forEach(resource => {
+    if (!resource.parentId) return;
+    children.set(resource.parentId, [...(children.get(resource.parentId) || []), resource]);
+  });
+  const childrenOf = (id: string, type: string) => (children.get(id) || []).filter(r => r._type === type);
+
+  const buildItems = (parentId: string): PostmanItem[] => {
+    const items: PostmanItem[] = [];
+    [...childrenOf(parentId, 'request_group'), ...childrenOf(parentId, 'request')]
+      .sort(byMetaSortKey)
+      .forEach(resource => {
+        const name = uniqueItemName(items, resource.name || (resource._type === 'request' ? 'Untitled Request' : 'Untitled Folder'));
+        if (resource._type === 'request_group') {
+          const variable = flattenData(resource.environment);
+          const auth = toAuth(resource.authentication);
+          items.push({
+            ...createNewFolder(name),
+            item: buildItems(resource._id),
+            ...(variable.length && { variable }),
+            ...(auth && { auth }),
+          });
+        } else {
+          const event = toEvents(resource);
+          items.push({ name, request: toRequest(resource), response: [], ...(event.length && { event }) });
+        }
+      });
+    return items;
+  };
+
+  const workspaces = data.resources.filter(r => r._type === 'workspace');
+  if (workspaces.length === 0) {
+    throw new Error('The Insomnia export contains no workspaces');
+  }
+
+  const result: InsomniaImport = { collections: [], environments: [] };
+  workspaces.forEach(workspace => {
+    const collection = createNewCollection(workspace.name || 'Insomnia Import');
+    if (workspace.description) collection.info.description = workspace.description;
+    collection.item = buildItems(workspace._id);
+
+    childrenOf(workspace._id, 'environment').forEach(base => {
+      const variable = flattenData(base.data);
+      if (variable.length) collection.variable = [...(collection.variable || []), ...variable];
+
+      childrenOf(base._id, 'environment').sort(byMetaSortKey).forEach(environment => {
+        result.environments.push(parsePostmanEnvironment({
+          id: environment._id,
+          name: workspaces.length > 1 ? `${collection.info.name} - ${environment.name}` : environment.name,
+          values: flattenData(environment.data),
+        }));
+      });
+    });
+    result.collections.push(collection);
+  });
+
+  return result;
+}
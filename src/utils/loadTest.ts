@@ -0,0 +1,150 @@
+import { PostmanRequest } from '@/types/postman';
+import { RunnerVariables, ScriptRunner, collectRequests, runRequest } from '@/utils/collectionRunner';
+import { buildVariableScopes } from '@/utils/variableUtils';
+
+export interface LoadTestOptions {
+  // How many times the request, or the folder's request sequence, is run
+  iterations: number;
+  concurrency: number;
+  // Virtual users start evenly spread over this many milliseconds
+  rampUp: number;
+  scriptTimeout?: number;
+}
+
+export interface LoadTestSample {
+  name: string;
+  // Milliseconds since the test started, when the response arrived
+  finishedAt: number;
+  responseTime: number;
+  status: number;
+  failed: boolean;
+}
+
+export interface LoadTestHooks {
+  runScript: ScriptRunner;
+  onSample?: (sample: LoadTestSample) => void;
+  shouldStop?: () => boolean;
+}
+
+export interface LatencyPercentiles {
+  p50: number;
+  p90: number;
+  p99: number;
+}
+
+export interface LoadTestPoint extends LatencyPercentiles {
+  second: number;
+  throughput: number;
+  errorRate: number;
+}
+
+export interface LoadTestSummary extends LatencyPercentiles {
+  requests: number;
+  errors: number;
+  errorRate: number;
+  throughput: number;
+  average: number;
+  min: number;
+  max: number;
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs the request or folder at `path` `iterations` times, spread over
+ * `concurrency` virtual users that each take the next iteration as soon as
+ * they finish one. Every request goes through the normal send pipeline, but
+ * variable changes made by scripts are not kept.
+ */
+export async function runLoadTest(
+  variables: RunnerVariables,
+  path: string[],
+  options: LoadTestOptions,
+  hooks: LoadTestHooks
+): Promise<LoadTestSample[]> {
+  const { collection, environment, globals } = variables;
+  const requests = collectRequests(collection, path);
+  const samples: LoadTestSample[] = [];
+  const startedAt = Date.now();
+  const users = Math.max(1, Math.min(options.concurrency, options.iterations));
+  let nextIteration = 0;
+
+  const runUser = async (user: number) => {
+    await wait((options.rampUp / users) * user);
+
+    while (nextIteration < options.iterations && !hooks.shouldStop?.()) {
+      nextIteration++;
+      for (const { item, path: requestPath } of requests) {
+        if (hooks.shouldStop?.()) return;
+
+        const scopes = buildVariableScopes({ collection, path: requestPath, environment, globals });
+        const outcome = await runRequest(collection, requestPath, item.request as PostmanRequest, scopes, {
+          runScript: hooks.runScript,
+          scriptTimeout: options.scriptTimeout,
+        });
+        const status = outcome.response?.status ?? 0;
+        const sample: LoadTestSample = {
+          name: item.name,
+          finishedAt: Date.now() - startedAt,
+          responseTime: outcome.response?.responseTime ?? 0,
+          status,
+          failed: !!outcome.error || status === 0 || status >= 400 || outcome.tests.some(t => !t.passed),
+        };
+        samples.push(sample);
+        hooks.onSample?.(sample);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: users }, (_, user) => runUser(user)));
+  return samples;
+}
+
+// Nearest-rank percentile of an ascending list
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+function getPercentiles(samples: LoadTestSample[]): LatencyPercentiles {
+  const times = samples.map(s => s.responseTime).sort((a, b) => a - b);
+  return { p50: percentile(times, 50), p90: percentile(times, 90), p99: percentile(times, 99) };
+}
+
+// Per-second throughput, error rate and latency percentiles, bucketed by when each response arrived
+export function getLoadTestTimeline(samples: LoadTestSample[]): LoadTestPoint[] {
+  const buckets = new Map<number, LoadTestSample[]>();
+  samples.forEach(sample => {
+    const second = Math.floor(sample.finishedAt / 1000);
+    if (!buckets.has(second)) buckets.set(second, []);
+    buckets.get(second)?.push(sample);
+  });
+
+  const lastSecond = Math.max(-1, ...buckets.keys());
+  return Array.from({ length: lastSecond + 1 }, (_, second) => {
+    const bucket = buckets.get(second) || [];
+    return {
+      second: second + 1,
+      throughput: bucket.length,
+      errorRate: bucket.length ? Math.round((bucket.filter(s => s.failed).length / bucket.length) * 100) : 0,
+      ...getPercentiles(bucket),
+    };
+  });
+}
+
+export function summarizeLoadTest(samples: LoadTestSample[]): LoadTestSummary {
+  const errors = samples.filter(s => s.failed).length;
+  const times = samples.map(s => s.responseTime);
+  // Reduce rather than spread, which overflows the stack for large runs
+  const duration = samples.reduce((max, s) => Math.max(max, s.finishedAt), 1) / 1000;
+  return {
+    requests: samples.length,
+    errors,
+    errorRate: samples.length ? Math.round((errors / samples.length) * 100) : 0,
+    throughput: Math.round((samples.length / duration) * 10) / 10,
+    average: samples.length ? Math.round(times.reduce((sum, t) => sum + t, 0) / samples.length) : 0,
+    min: samples.length ? times.reduce((min, t) => Math.min(min, t), Infinity) : 0,
+    max: times.reduce((max, t) => Math.max(max, t), 0),
+    ...getPercentiles(samples),
+  };
+}
@@ -0,0 +1,506 @@
+import { HttpMethod, PostmanAuth, PostmanBody, PostmanCollection, PostmanHeader, PostmanItem, PostmanRequest, PostmanVariable } from '@/types/postman';
+import { createNewCollection, createNewFolder, uniqueItemName } from '@/utils/postmanUtils';
+
+interface Reference {
+  $ref?: string;
+}
+
+interface SchemaObject extends Reference {
+  type?: string | string[];
+  format?: string;
+  example?: unknown;
+  examples?: unknown[];
+  default?: unknown;
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, SchemaObject>;
+  items?: SchemaObject;
+  additionalProperties?: boolean | SchemaObject;
+  allOf?: SchemaObject[];
+  oneOf?: SchemaObject[];
+  anyOf?: SchemaObject[];
+}
+
+interface ExampleObject extends Reference {
+  value?: unknown;
+}
+
+interface MediaTypeObject {
+  schema?: SchemaObject;
+  example?: unknown;
+  examples?: Record<string, ExampleObject>;
+}
+
+interface ParameterObject extends Reference {
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie' | 'body' | 'formData';
+  required?: boolean;
+  deprecated?: boolean;
+  schema?: SchemaObject;
+  example?: unknown;
+  examples?: Record<string, ExampleObject>;
+  // Swagger 2.0 keeps the schema fields on non-body parameters themselves
+  type?: string;
+  format?: string;
+  default?: unknown;
+  enum?: unknown[];
+  items?: SchemaObject;
+}
+
+interface RequestBodyObject extends Reference {
+  content?: Record<string, MediaTypeObject>;
+}
+
+interface ResponseObject extends Reference {
+  description?: string;
+  content?: Record<string, MediaTypeObject>;
+  // Swagger 2.0
+  schema?: SchemaObject;
+  examples?: Record<string, unknown>;
+}
+
+type SecurityRequirement = Record<string, string[]>;
+
+interface SecuritySchemeObject extends Reference {
+  type: string;
+  scheme?: string;
+  name?: string;
+  in?: string;
+}
+
+interface OperationObject {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  parameters?: ParameterObject[];
+  requestBody?: RequestBodyObject;
+  responses?: Record<string, ResponseObject>;
+  security?: SecurityRequirement[];
+  consumes?: string[];
+  produces?: string[];
+}
+
+type PathItemObject = Reference & { parameters?: ParameterObject[] } & Partial<Record<Lowercase<HttpMethod>, OperationObject>>;
+
+export interface OpenApiDocument {
+  openapi?: string;
+  swagger?: string;
+  info?: { title?: string; description?: string; version?: string };
+  servers?: Array<{ url: string; variables?: Record<string, { default?: string }> }>;
+  host?: string;
+  basePath?: string;
+  schemes?: string[];
+  consumes?: string[];
+  produces?: string[];
+  paths?: Record<string, PathItemObject>;
+  components?: { securitySchemes?: Record<string, SecuritySchemeObject> };
+  securityDefinitions?: Record<string, SecuritySchemeObject>;
+  security?: SecurityRequirement[];
+}
+
+export type OpenApiFolderStrategy = 'tags' | 'paths';
+
+export interface OpenApiImportOptions {
+  // Defaults to tags when any operation is tagged, otherwise the first path segment
+  folderStrategy?: OpenApiFolderStrategy;
+}
+
+const METHODS: HttpMethod[] = ['GET', 'PUT', 'POST', 'DELETE', 'OPTIONS', 'HEAD', 'PATCH'];
+const MAX_EXAMPLE_DEPTH = 8;
+
+const STATUS_TEXT: Record<string, string> = {
+  200: 'OK', 201: 'Created', 202: 'Accepted', 204: 'No Content', 301: 'Moved Permanently', 302: 'Found',
+  304: 'Not Modified', 400: 'Bad Request', 401: 'Unauthorized', 403: 'Forbidden', 404: 'Not Found',
+  405: 'Method Not Allowed', 409: 'Conflict', 422: 'Unprocessable Entity', 429: 'Too Many Requests',
+  500: 'Internal Server Error', 502: 'Bad Gateway', 503: 'Service Unavailable',
+};
+
+export function isOpenApiDocument(json: unknown): json is OpenApiDocument {
+  const doc = json as OpenApiDocument;
+  return !!doc && typeof doc === 'object'
+    && ((typeof doc.openapi === 'string' && doc.openapi.startsWith('3')) || doc.swagger === '2.0');
+}
+
+// Follows local "#/..." references, including chains of them; external references are left unresolved
+function resolveRef<T extends Reference>(doc: OpenApiDocument, value: T | undefined): T | undefined {
+  let current = value;
+  for (let hops = 0; current?.$ref && hops < 20; hops++) {
+    if (!current.$ref.startsWith('#/')) return undefined;
+    current = current.$ref
+      .slice(2)
+      .split('/')
+      .map(part => part.replace(/~1/g, '/').replace(/~0/g, '~'))
+      .reduce<unknown>((node, part) => (node as Record<string, unknown>)?.[part], doc) as T | undefined;
+  }
+  return current;
+}
+
+const firstType = (type: SchemaObject['type']) => (Array.isArray(type) ? type.find(t => t !== 'null') : type);
+
+function exampleForString(format?: string): string {
+  switch (format) {
+    case 'date-time': return new Date(0).toISOString();
+    case 'date': return '1970-01-01';
+    case 'email': return 'user@example.com';
+    case 'uuid': return '00000000-0000-0000-0000-000000000000';
+    case 'uri':
+    case 'url': return 'https://example.com';
+    case 'binary': return '';
+    default: return 'string';
+  }
+}
+
+/**
+ * Builds an example value from a JSON schema, preferring the schema's own
+ * example, default or first enum value. Recursive references stop expanding
+ * once they repeat, and nesting is capped.
+ */
+export function generateSchemaExample(doc: OpenApiDocument, schema: SchemaObject | undefined, seen: string[] = []): unknown {
+  if (!schema) return undefined;
+  if (schema.$ref) {
+    if (seen.includes(schema.$ref) || seen.length >= MAX_EXAMPLE_DEPTH) return undefined;
+    return generateSchemaExample(doc, resolveRef(doc, schema), [...seen, schema.$ref]);
+  }
+  if (schema.example !== undefined) return schema.example;
+  if (schema.examples?.length) return schema.examples[0];
+  if (schema.default !== undefined) return schema.default;
+  if (schema.const !== undefined) return schema.const;
+  if (schema.enum?.length) return schema.enum[0];
+
+  if (schema.allOf) {
+    const parts = schema.allOf.map(part => generateSchemaExample(doc, part, seen));
+    return parts.every(part => part && typeof part === 'object' && !Array.isArray(part))
+      ? Object.assign({}, ...parts)
+      : parts.find(part => part !== undefined);
+  }
+  if (schema.oneOf?.length) return generateSchemaExample(doc, schema.oneOf[0], seen);
+  if (schema.anyOf?.length) return generateSchemaExample(doc, schema.anyOf[0], seen);
+
+  const type = firstType(schema.type) || (schema.properties ? 'object' : schema.items ? 'array' : undefined);
+  switch (type) {
+    case 'object': {
+      const example: Record<string, unknown> = {};
+      Object.entries(schema.properties || {}).forEach(([name, property]) => {
+        const value = generateSchemaExample(doc, property, seen);
+        if (value !== undefined) example[name] = value;
+      });
+      return example;
+    }
+    case 'array': {
+      const item = generateSchemaExample(doc, schema.items, seen);
+      return item === undefined ? [] : [item];
+    }
+    case 'integer':
+    case 'number':
+      return 0;
+    case 'boolean':
+      return true;
+    case 'string':
+      return exampleForString(schema.format);
+    default:
+      return undefined;
+  }
+}
+
+// An explicit example wins over one generated from the schema
+function mediaTypeExample(doc: OpenApiDocument, media: MediaTypeObject | undefined): unknown {
+  if (!media) return undefined;
+  if (media.example !== undefined) return media.example;
+  const named = Object.values(media.examples || {})[0];
+  if (named) {
+    const example = resolveRef(doc, named);
+    if (example?.value !== undefined) return example.value;
+  }
+  return generateSchemaExample(doc, media.schema);
+}
+
+function parameterExample(doc: OpenApiDocument, parameter: ParameterObject): string {
+  const named = Object.values(parameter.examples || {})[0];
+  const value = parameter.example
+    ?? resolveRef(doc, named)?.value
+    ?? generateSchemaExample(doc, parameter.schema || { type: parameter.type, format: parameter.format, default: parameter.default, enum: parameter.enum, items: parameter.items });
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.join(',');
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+const stringifyExample = (value: unknown, contentType: string) =>
+  typeof value === 'string' && !contentType.includes('json') ? value : JSON.stringify(value ?? {}, null, 2);
+
+function getBaseUrl(doc: OpenApiDocument): string {
+  if (doc.swagger) {
+    const basePath = doc.basePath && doc.basePath !== '/' ? doc.basePath.replace(/\/$/, '') : '';
+    return doc.host ? `${doc.schemes?.[0] || 'https'}://${doc.host}${basePath}` : basePath;
+  }
+  const server = doc.servers?.[0];
+  if (!server) return '';
+  // Server variables are filled in with their defaults
+  return server.url
+    .replace(/\{([^}]+)\}/g, (match, name: string) => server.variables?.[name]?.default ?? match)
+    .replace(/\/$/, '');
+}
+
+function getSecuritySchemes(doc: OpenApiDocument): Record<string, SecuritySchemeObject> {
+  return doc.components?.securitySchemes || doc.securityDefinitions || {};
+}
+
+// Maps the first usable security requirement to Postman auth; credentials become collection variables
+function getAuth(doc: OpenApiDocument, requirements: SecurityRequirement[] | undefined, variables: Map<string, string>): PostmanAuth | undefined {
+  if (!requirements) return undefined;
+  if (requirements.length === 0 || requirements.some(r => Object.keys(r).length === 0)) return { type: 'noauth' };
+
+  const schemes = getSecuritySchemes(doc);
+  for (const requirement of requirements) {
+    for (const name of Object.keys(requirement)) {
+      const scheme = resolveRef(doc, schemes[name]);
+      if (!scheme) continue;
+
+      if (scheme.type === 'http' && scheme.scheme?.toLowerCase() === 'bearer') {
+        variables.set('bearerToken', '');
+        return { type: 'bearer', bearer: [{ key: 'token', value: '{{bearerToken}}', type: 'string' }] };
+      }
+      if ((scheme.type === 'http' && scheme.scheme?.toLowerCase() === 'basic') || scheme.type === 'basic') {
+        variables.set('username', '');
+        variables.set('password', '');
+        return {
+          type: 'basic',
+          basic: [
+            { key: 'username', value: '{{username}}', type: 'string' },
+            { key: 'password', value: '{{password}}', type: 'string' },
+          ],
+        };
+      }
+      if (scheme.type === 'apiKey' && scheme.name && scheme.in !== 'cookie') {
+        variables.set('apiKey', '');
+        return {
+          type: 'apikey',
+          apikey: [
+            { key: 'key', value: scheme.name, type: 'string' },
+            { key: 'value', value: '{{apiKey}}', type: 'string' },
+            { key: 'in', value: scheme.in === 'query' ? 'query' : 'header', type: 'string' },
+          ],
+        };
+      }
+      if (scheme.type === 'oauth2' || scheme.type === 'openIdConnect') {
+        variables.set('accessToken', '');
+        return {
+          type: 'oauth2',
+          oauth2: [
+            { key: 'accessToken', value: '{{accessToken}}', type: 'string' },
+            { key: 'addTokenTo', value: 'header', type: 'string' },
+          ],
+        };
+      }
+    }
+  }
+  return undefined;
+}
+
+function buildBody(
+  doc: OpenApiDocument,
+  operation: OperationObject,
+  parameters: ParameterObject[]
+): { body?: PostmanBody; contentType?: string } {
+  const requestBody = resolveRef(doc, operation.requestBody);
+  if (requestBody?.content) {
+    const types = Object.keys(requestBody.content);
+    const contentType = types.find(t => t.includes('json')) || types[0];
+    if (!contentType) return {};
+    const media = requestBody.content[contentType];
+
+    if (contentType === 'application/x-www-form-urlencoded' || contentType.startsWith('multipart/')) {
+      const example = mediaTypeExample(doc, media);
+      const schema = resolveRef(doc, media.schema);
+      const fields = Object.keys(schema?.properties || (example as object) || {});
+      const value = (name: string) => {
+        const field = (example as Record<string, unknown>)?.[name];
+        return field === undefined || field === null ? '' : typeof field === 'object' ? JSON.stringify(field) : String(field);
+      };
+      if (contentType.startsWith('multipart/')) {
+        return {
+          contentType,
+          body: {
+            mode: 'formdata',
+            formdata: fields.map(name => {
+              const isFile = resolveRef(doc, schema?.properties?.[name])?.format === 'binary';
+              return isFile ? { key: name, value: '', type: 'file' } : { key: name, value: value(name), type: 'text' };
+            }),
+          },
+        };
+      }
+      return { contentType, body: { mode: 'urlencoded', urlencoded: fields.map(name => ({ key: name, value: value(name) })) } };
+    }
+
+    const example = mediaTypeExample(doc, media);
+    return {
+      contentType,
+      body: {
+        mode: 'raw',
+        raw: stringifyExample(example, contentType),
+        options: { raw: { language: contentType.includes('json') ? 'json' : contentType.includes('xml') ? 'xml' : 'text' } },
+      },
+    };
+  }
+
+  // Swagger 2.0 describes the body as an "in: body" parameter or a set of formData parameters
+  const bodyParameter = parameters.find(p => p.in === 'body');
+  const consumes = operation.consumes || doc.consumes || [];
+  if (bodyParameter) {
+    const contentType = consumes.find(t => t.includes('json')) || consumes[0] || 'application/json';
+    return {
+      contentType,
+      body: {
+        mode: 'raw',
+        raw: stringifyExample(generateSchemaExample(doc, bodyParameter.schema), contentType),
+        options: { raw: { language: contentType.includes('json') ? 'json' : 'text' } },
+      },
+    };
+  }
+  const formParameters = parameters.filter(p => p.in === 'formData');
+  if (formParameters.length) {
+    if (consumes.some(t => t.startsWith('multipart/')) || formParameters.some(p => p.type === 'file')) {
+      return {
+        body: {
+          mode: 'formdata',
+          formdata: formParameters.map(p => (p.type === 'file'
+            ? { key: p.name, value: '', type: 'file' }
+            : { key: p.name, value: parameterExample(doc, p), type: 'text' })),
+        },
+      };
+    }
+    return {
+      contentType: 'application/x-www-form-urlencoded',
+      body: { mode: 'urlencoded', urlencoded: formParameters.map(p => ({ key: p.name, value: parameterExample(doc, p) })) },
+    };
+  }
+  return {};
+}
+
+// One saved example per documented response, using the first media type that has a body
+function buildResponses(doc: OpenApiDocument, operation: OperationObject, name: string, request: PostmanRequest) {
+  return Object.entries(operation.responses || {}).map(([code, value]) => {
+    const response = resolveRef(doc, value);
+    const status = Number(code) || 200;
+    let contentType = '';
+    let body: unknown;
+
+    if (response?.content) {
+      const types = Object.keys(response.content);
+      contentType = types.find(t => t.includes('json')) || types[0] || '';
+      body = contentType ? mediaTypeExample(doc, response.content[contentType]) : undefined;
+    } else if (response?.examples && Object.keys(response.examples).length) {
+      [contentType, body] = Object.entries(response.examples)[0];
+    } else if (response?.schema) {
+      contentType = (operation.produces || doc.produces || ['application/json'])[0];
+      body = generateSchemaExample(doc, response.schema);
+    }
+
+    return {
+      name: response?.description || `${code} response`,
+      originalRequest: request,
+      status: STATUS_TEXT[status] || response?.description || '',
+      code: status,
+      _postman_previewlanguage: contentType.includes('json') ? 'json' : contentType.includes('xml') ? 'xml' : 'text',
+      header: contentType ? [{ key: 'Content-Type', value: contentType }] : [],
+      body: body === undefined ? '' : stringifyExample(body, contentType),
+    };
+  });
+}
+
+/**
+ * Converts an OpenAPI 3.x or Swagger 2.0 document into a collection with one
+ * request per operation. The server URL becomes the {{baseUrl}} collection
+ * variable and path parameters become each request's ":name" path variables,
+ * or {{name}} collection variables when they are only part of a path segment.
+ */
+export function convertOpenApiToCollection(doc: OpenApiDocument, options: OpenApiImportOptions = {}): PostmanCollection {
+  if (!isOpenApiDocument(doc)) {
+    throw new Error('Not an OpenAPI 3.x or Swagger 2.0 document');
+  }
+
+  const collection = createNewCollection(doc.info?.title || 'Imported API');
+  if (doc.info?.description) collection.info.description = doc.info.description;
+
+  const variables = new Map<string, string>([['baseUrl', getBaseUrl(doc)]]);
+  const collectionAuth = getAuth(doc, doc.security, variables);
+  if (collectionAuth) collection.auth = collectionAuth;
+
+  const operations = Object.entries(doc.paths || {}).flatMap(([path, value]) => {
+    const pathItem = resolveRef(doc, value) || {};
+    return METHODS
+      .filter(method => pathItem[method.toLowerCase() as Lowercase<HttpMethod>])
+      .map(method => ({ path, method, pathItem, operation: pathItem[method.toLowerCase() as Lowercase<HttpMethod>] }));
+  });
+  const strategy = options.folderStrategy || (operations.some(o => o.operation.tags?.length) ? 'tags' : 'paths');
+
+  const folders = new Map<string, PostmanItem>();
+  const addItem = (folderName: string | undefined, item: PostmanItem) => {
+    if (folderName && !folders.has(folderName)) {
+      const folder = createNewFolder(folderName);
+      folders.set(folderName, folder);
+      collection.item.push(folder);
+    }
+    const siblings = folderName ? folders.get(folderName).item : collection.item;
+    siblings.push({ ...item, name: uniqueItemName(siblings, item.name) });
+  };
+
+  operations.forEach(({ path, method, pathItem, operation }) => {
+    // Operation parameters override path-level ones with the same name and location
+    const parameters = [...(pathItem.parameters || []), ...(operation.parameters || [])]
+      .map(p => resolveRef(doc, p))
+      .filter((p): p is ParameterObject => !!p?.name)
+      .reduce<ParameterObject[]>((list, p) => [...list.filter(e => e.name !== p.name || e.in !== p.in), p], []);
+
+    // Each request gets its own path values, so two operations sharing a name like {id} don't clash.
+    // A ":name" path variable must be a whole segment, so a parameter that is only part of one
+    // (`/files/{name}.json`, `/{from}-{to}`) stays a {{name}} collection variable
+    const pathParameters = new Map(parameters.filter(p => p.in === 'path').map(p => [p.name, p]));
+    const pathExample = (name: string) => {
+      const parameter = pathParameters.get(name);
+      return parameter ? parameterExample(doc, parameter) : '';
+    };
+    const pathVariables: PostmanVariable[] = [];
+    const segments = path.split('/').map(segment => {
+      const whole = segment.match(/^\{([^{}]+)\}$/);
+      if (whole) {
+        pathVariables.push({ key: whole[1], value: pathExample(whole[1]) });
+        return `:${whole[1]}`;
+      }
+      return segment.replace(/\{([^{}]+)\}/g, (_, name: string) => {
+        if (!variables.get(name)) variables.set(name, pathExample(name));
+        return `{{${name}}}`;
+      });
+    });
+
+    const query = parameters
+      .filter(p => p.in === 'query' && !p.deprecated)
+      .map(p => `${p.name}=${parameterExample(doc, p)}`);
+    const raw = `{{baseUrl}}${segments.join('/')}${query.length ? `?${query.join('&')}` : ''}`;
+    const url = pathVariables.length ? { raw, variable: pathVariables } : raw;
+
+    const header: PostmanHeader[] = parameters
+      .filter(p => p.in === 'header' && !['accept', 'content-type', 'authorization'].includes(p.name.toLowerCase()))
+      .map(p => ({ key: p.name, value: parameterExample(doc, p) }));
+    const cookies = parameters.filter(p => p.in === 'cookie').map(p => `${p.name}=${parameterExample(doc, p)}`);
+    if (cookies.length) header.push({ key: 'Cookie', value: cookies.join('; ') });
+
+    const { body, contentType } = buildBody(doc, operation, parameters);
+    if (contentType && body?.mode !== 'formdata') header.push({ key: 'Content-Type', value: contentType });
+
+    const request: PostmanRequest = { method, header, url, ...(body && { body }) };
+    const auth = getAuth(doc, operation.security, variables);
+    if (auth) request.auth = auth;
+
+    const name = operation.summary || operation.operationId || `${method} ${path}`;
+    const item: PostmanItem = { name, request, response: buildResponses(doc, operation, name, request) };
+
+    const folderName = strategy === 'tags'
+      ? operation.tags?.[0]
+      : path.split('/').find(segment => segment && !segment.startsWith('{'));
+    addItem(folderName, item);
+  });
+
+  collection.variable = [...variables].map(([key, value]): PostmanVariable => ({ key, value, type: 'string' }));
+  return collection;
+}
@@ -1,11 +1,71 @@
-import { PostmanCollection, PostmanItem, PostmanRequest, RequestResponse } from '@/types/postman';
+import { PostmanAuth, PostmanCollection, PostmanEnvironment, PostmanEvent, PostmanHeader, PostmanItem, PostmanRequest, RequestResponse } from '@/types/postman';
+import { VariableScopes, flattenVariableScopes, resolveRequest } from '@/utils/variableUtils';
+import { migrateCollection } from '@/utils/collectionMigration';
+import { readFileMarkers, validateCollection, validateEnvironment } from '@/utils/collectionSchema';
 
-export function parsePostmanCollection(json: any): PostmanCollection {
-  return json as PostmanCollection;
+/**
+ * Reads a Postman collection export. v1.0 and v2.0 exports are migrated to
+ * v2.1 first; a document that still doesn't match the schema throws a
+ * CollectionValidationError.
+ */
+export function parsePostmanCollection(json: unknown): PostmanCollection {
+  const collection = validateCollection(migrateCollection(json));
+  return {
+    ...collection,
+    info: { ...collection.info, _postman_id: collection.info._postman_id || generateId() },
+  };
 }
 
+// Item fields only this app reads, such as what a .http file kept, stay out of v2.1 files
+const toPostmanItems = (items: PostmanItem[]): PostmanItem[] => items.map(({ httpFile, ...item }) => (
+  item.item ? { ...item, item: toPostmanItems(item.item) } : item
+));
+
 export function exportCollection(collection: PostmanCollection): string {
-  return JSON.stringify(collection, null, 2);
+  return JSON.stringify({ ...collection, item: toPostmanItems(collection.item) }, null, 2);
+}
+
+export type PostmanFileType = 'collection' | 'environment' | 'globals';
+
+export function detectPostmanFileType(json: unknown): PostmanFileType {
+  const { _postman_variable_scope: scope, values, info } = readFileMarkers(json);
+  if (scope === 'globals') return 'globals';
+  if (scope === 'environment') return 'environment';
+  // Older exports omit the scope marker but still carry a values array and no collection info
+  if (Array.isArray(values) && !info) return 'environment';
+  return 'collection';
+}
+
+export function parsePostmanEnvironment(json: unknown): PostmanEnvironment {
+  const environment = validateEnvironment(json);
+  const scope = detectPostmanFileType(json) === 'globals' ? 'globals' : 'environment';
+  return {
+    id: environment.id || generateId(),
+    name: environment.name || (scope === 'globals' ? 'Globals' : 'Imported Environment'),
+    values: environment.values.map(v => ({
+      key: v.key,
+      value: v.value,
+      type: v.type || 'default',
+      enabled: v.enabled !== false
+    })),
+    _postman_variable_scope: scope
+  };
+}
+
+export function exportEnvironment(environment: PostmanEnvironment): string {
+  return JSON.stringify({
+    id: environment.id,
+    name: environment.name,
+    values: environment.values.map(v => ({
+      key: v.key,
+      value: v.value,
+      type: v.type || 'default',
+      enabled: v.enabled !== false
+    })),
+    _postman_variable_scope: environment._postman_variable_scope || 'environment',
+    _postman_exported_at: new Date().toISOString(),
+    _postman_exported_using: 'Postman Clone'
+  }, null, 2);
 }
 
 export function createNewCollection(name: string): PostmanCollection {
@@ -27,9 +87,6 @@ export function createNewRequest(name: string): PostmanItem {
       method: 'GET',
       header: [],
       url: '',
-      auth: {
-        type: 'noauth'
-      }
     },
     response: []
   };
@@ -42,6 +99,22 @@ export function createNewFolder(name: string): PostmanItem {
   };
 }
 
+export function createNewEnvironment(name: string): PostmanEnvironment {
+  return {
+    id: generateId(),
+    name,
+    values: [],
+    _postman_variable_scope: 'environment'
+  };
+}
+
+// Items are addressed by name, so an imported item that clashes with a sibling gets numbered
+export function uniqueItemName(siblings: PostmanItem[], name: string): string {
+  let unique = name;
+  for (let n = 2; siblings.some(sibling => sibling.name === unique); n++) unique = `${name} (${n})`;
+  return unique;
+}
+
 export function findItemByPath(collection: PostmanCollection, path: string[]): PostmanItem | null {
   let current: PostmanItem[] = collection.item;
   let item: PostmanItem | null = null;
@@ -57,10 +130,101 @@ export function findItemByPath(collection: PostmanCollection, path: string[]): P
   return item;
 }
 
-export async function executeRequest(request: PostmanRequest): Promise<RequestResponse> {
+export function getEventScript(events: PostmanEvent[] | undefined, listen: PostmanEvent['listen']): string {
+  const event = events?.find(e => e.listen === listen && !e.disabled);
+  if (!event) return '';
+  return Array.isArray(event.script.exec) ? event.script.exec.join('\n') : event.script.exec || '';
+}
+
+export function setEventScript(
+  events: PostmanEvent[] | undefined,
+  listen: PostmanEvent['listen'],
+  script: string
+): PostmanEvent[] {
+  const others = (events || []).filter(e => e.listen !== listen);
+  if (!script) return others;
+  return [...others, { listen, script: { type: 'text/javascript', exec: script.split('\n') } }];
+}
+
+// The collection and every item from the root down to the item at `path`, outermost first
+export function getItemChain(collection: PostmanCollection, path: string[]): Array<PostmanCollection | PostmanItem> {
+  const chain: Array<PostmanCollection | PostmanItem> = [collection];
+  let current: PostmanItem[] = collection.item;
+
+  for (const segment of path) {
+    const item = current.find(i => i.name === segment);
+    if (!item) break;
+    chain.push(item);
+    current = item.item || [];
+  }
+
+  return chain;
+}
+
+export interface InheritedScript {
+  source: string;
+  script: string;
+}
+
+// Postman runs collection scripts first, then each folder's, then the request's own, for both events
+export function getInheritedScripts(
+  collection: PostmanCollection,
+  path: string[],
+  listen: PostmanEvent['listen']
+): InheritedScript[] {
+  return getItemChain(collection, path)
+    .map(level => ({
+      source: 'info' in level ? level.info.name : level.name,
+      script: getEventScript(level.event, listen),
+    }))
+    .filter(entry => entry.script.trim());
+}
+
+/**
+ * Applies the auth and default headers the request inherits from its folders
+ * and collection. A request without auth uses the nearest ancestor's auth, and
+ * headers set closer to the request override those with the same key above it.
+ */
+export function applyInheritedSettings(
+  collection: PostmanCollection,
+  path: string[],
+  request: PostmanRequest
+): PostmanRequest {
+  const ancestors = getItemChain(collection, path).filter(level => !('request' in level && level.request));
+
+  let auth: PostmanAuth | undefined = request.auth;
+  for (let i = ancestors.length - 1; !auth && i >= 0; i--) {
+    auth = ancestors[i].auth;
+  }
+
+  const headers = new Map<string, PostmanHeader>();
+  [...ancestors.map(level => level.header), request.header].forEach(list => {
+    list?.filter(h => !h.disabled && h.key).forEach(h => {
+      headers.delete(h.key.toLowerCase());
+      headers.set(h.key.toLowerCase(), h);
+    });
+  });
+  // Disabled request headers are kept so the request round-trips unchanged
+  const disabled = (request.header || []).filter(h => h.disabled || !h.key);
+
+  return {
+    ...request,
+    header: [...headers.values(), ...disabled],
+    ...(auth && { auth }),
+  };
+}
+
+export async function executeRequest(
+  request: PostmanRequest,
+  scopes: VariableScopes = {}
+): Promise<RequestResponse> {
   const startTime = Date.now();
   
   try {
+    // Substitute {{variables}} following Postman's scope precedence
+    request = resolveRequest(request, flattenVariableScopes(scopes));
+
+
     // Prepare URL
     const url = typeof request.url === 'string' ? request.url : request.url?.raw || '';
     
@@ -71,6 +235,7 @@ export async function executeRequest(request: PostmanRequest): Promise<RequestRe
         headers[h.key] = h.value;
       }
     });
+    const hasContentType = () => Object.keys(headers).some(key => key.toLowerCase() === 'content-type');
 
     // Add auth headers
     if (request.auth?.type === 'bearer' && request.auth.bearer) {
@@ -78,19 +243,74 @@ export async function executeRequest(request: PostmanRequest): Promise<RequestRe
       if (token) {
         headers['Authorization'] = `Bearer ${token}`;
       }
+    } else if (request.auth?.type === 'basic' && request.auth.basic) {
+      const username = request.auth.basic.find(item => item.key === 'username')?.value || '';
+      const password = request.auth.basic.find(item => item.key === 'password')?.value || '';
+      const credentials = new TextEncoder().encode(`${username}:${password}`);
+      headers['Authorization'] = `Basic ${btoa(String.fromCharCode(...credentials))}`;
+    } else if (request.auth?.type === 'oauth2' && request.auth.oauth2) {
+      const token = request.auth.oauth2.find(item => item.key === 'accessToken')?.value;
+      if (token) {
+        headers['Authorization'] = `Bearer ${token}`;
+      }
+    }
+
+    // An API key goes into a header, or the query string when "in" is "query"
+    let requestUrl = url;
+    if (request.auth?.type === 'apikey' && request.auth.apikey) {
+      const setting = (key: string) => request.auth.apikey.find(item => item.key === key)?.value || '';
+      if (setting('key')) {
+        if (setting('in') === 'query') {
+          const separator = requestUrl.includes('?') ? '&' : '?';
+          requestUrl += `${separator}${encodeURIComponent(setting('key'))}=${encodeURIComponent(setting('value'))}`;
+        } else {
+          headers[setting('key')] = setting('value');
+        }
+      }
     }
 
     // Prepare body
-    let body: string | undefined;
+    let body: string | FormData | undefined;
     if (request.body?.mode === 'raw' && request.body.raw) {
       body = request.body.raw;
-      if (!headers['Content-Type']) {
+      if (!hasContentType()) {
+        headers['Content-Type'] = 'application/json';
+      }
+    } else if (request.body?.mode === 'urlencoded' && request.body.urlencoded) {
+      body = new URLSearchParams(
+        request.body.urlencoded.filter(p => !p.disabled && p.key).map(p => [p.key, p.value])
+      ).toString();
+      if (!hasContentType()) {
+        headers['Content-Type'] = 'application/x-www-form-urlencoded';
+      }
+    } else if (request.body?.mode === 'formdata' && request.body.formdata) {
+      // Files can't be read from a path here, so only text fields are sent
+      const form = new FormData();
+      request.body.formdata
+        .filter(p => !p.disabled && p.key && p.type !== 'file')
+        .forEach(p => form.append(p.key, p.value));
+      body = form;
+      // fetch sets the multipart boundary itself
+      Object.keys(headers)
+        .filter(key => key.toLowerCase() === 'content-type')
+        .forEach(key => delete headers[key]);
+    } else if (request.body?.mode === 'graphql' && request.body.graphql) {
+      // The standard GraphQL-over-HTTP payload
+      const variablesText = request.body.graphql.variables?.trim();
+      let variables: unknown;
+      try {
+        variables = variablesText ? JSON.parse(variablesText) : undefined;
+      } catch {
+        throw new Error('GraphQL variables are not valid JSON');
+      }
+      body = JSON.stringify({ query: request.body.graphql.query, ...(variables !== undefined && { variables }) });
+      if (!hasContentType()) {
         headers['Content-Type'] = 'application/json';
       }
     }
 
     // Make request
-    const response = await fetch(url, {
+    const response = await fetch(requestUrl, {
       method: request.method,
       headers,
       body: body && request.method !== 'GET' ? body : undefined,
@@ -160,19 +380,54 @@ export const checkFileSystemSupport = (): boolean => {
   return 'showDirectoryPicker' in window;
 };
 
-export const selectCollectionsFolder = async (): Promise<FileSystemDirectoryHandle | null> => {
+// Resolves to null when the user cancels the picker
+export const pickDirectory = async (mode: 'read' | 'readwrite'): Promise<FileSystemDirectoryHandle | null> => {
+  if (!checkFileSystemSupport()) {
+    throw new Error('File System Access API is not supported in this browser');
+  }
   try {
-    if (!checkFileSystemSupport()) {
-      throw new Error('File System Access API is not supported in this browser');
-    }
-    
-    const dirHandle = await (window as any).showDirectoryPicker({
-      mode: 'readwrite',
+    return await (window as any).showDirectoryPicker({
+      mode,
       startIn: 'documents'
     });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') return null;
+    throw error;
+  }
+};
+
+type FilePickerWindow = Window & {
+  showOpenFilePicker?(options: {
+    types: Array<{ description: string; accept: Record<string, string[]> }>;
+  }): Promise<FileSystemFileHandle[]>;
+};
+
+export const checkFilePickerSupport = (): boolean => {
+  return 'showOpenFilePicker' in window;
+};
+
+// Resolves to null when the user cancels the picker
+export const pickFile = async (description: string, extensions: string[]): Promise<FileSystemFileHandle | null> => {
+  if (!checkFilePickerSupport()) {
+    throw new Error('File System Access API is not supported in this browser');
+  }
+  try {
+    const [fileHandle] = await (window as FilePickerWindow).showOpenFilePicker({
+      types: [{ description, accept: { 'text/plain': extensions } }]
+    });
+    return fileHandle;
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') return null;
+    throw error;
+  }
+};
+
+export const selectCollectionsFolder = async (): Promise<FileSystemDirectoryHandle | null> => {
+  try {
+    const dirHandle = await pickDirectory('readwrite');
     
     // Save folder handle reference
-    saveToLocalStorage('collections-folder-handle', dirHandle);
+    if (dirHandle) saveToLocalStorage('collections-folder-handle', dirHandle);
     return dirHandle;
   } catch (error) {
     console.error('Failed to select folder:', error);
@@ -234,6 +489,59 @@ export const deleteCollectionFromFolder = async (
   }
 };
 
+const getEnvironmentFileName = (environmentName: string): string =>
+  `${environmentName.replace(/[^a-zA-Z0-9-_]/g, '_')}.environment.json`;
+
+export const loadEnvironmentsFromFolder = async (dirHandle: any): Promise<PostmanEnvironment[]> => {
+  const environments: PostmanEnvironment[] = [];
+
+  try {
+    for await (const [name, handle] of dirHandle.entries()) {
+      if (handle.kind === 'file' && name.endsWith('.environment.json')) {
+        try {
+          const file = await handle.getFile();
+          const content = await file.text();
+          environments.push(parsePostmanEnvironment(JSON.parse(content)));
+        } catch (error) {
+          console.error(`Failed to load environment ${name}:`, error);
+        }
+      }
+    }
+  } catch (error) {
+    console.error('Failed to load environments from folder:', error);
+  }
+
+  return environments;
+};
+
+export const saveEnvironmentToFolder = async (
+  dirHandle: FileSystemDirectoryHandle,
+  environment: PostmanEnvironment
+): Promise<void> => {
+  try {
+    const fileHandle = await dirHandle.getFileHandle(getEnvironmentFileName(environment.name), { create: true });
+    const writable = await fileHandle.createWritable();
+
+    await writable.write(JSON.stringify(environment, null, 2));
+    await writable.close();
+  } catch (error) {
+    console.error('Failed to save environment to folder:', error);
+    throw error;
+  }
+};
+
+export const deleteEnvironmentFromFolder = async (
+  dirHandle: FileSystemDirectoryHandle,
+  environmentName: string
+): Promise<void> => {
+  try {
+    await dirHandle.removeEntry(getEnvironmentFileName(environmentName));
+  } catch (error) {
+    console.error('Failed to delete environment from folder:', error);
+    throw error;
+  }
+};
+
 export const importCollectionToFolder = async (
   dirHandle: FileSystemDirectoryHandle,
   file: File
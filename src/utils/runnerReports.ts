@@ -0,0 +1,191 @@
+import { RunnerResult, isFailedResult } from '@/utils/collectionRunner';
+
+export interface RunReport {
+  name: string;
+  environment?: string;
+  startedAt: string;
+  duration: number;
+  results: RunnerResult[];
+}
+
+export type ReportFormat = 'junit' | 'html' | 'json';
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const escapeHtml = escapeXml;
+
+const seconds = (ms = 0) => (ms / 1000).toFixed(3);
+
+const requestLabel = (result: RunnerResult) => result.path.join(' / ');
+
+function summarize(report: RunReport) {
+  const tests = report.results.flatMap(r => r.tests);
+  return {
+    requests: report.results.length,
+    failedRequests: report.results.filter(isFailedResult).length,
+    tests: tests.length,
+    failedTests: tests.filter(t => !t.passed).length,
+    skippedTests: tests.filter(t => t.skipped).length,
+    averageTime: report.results.length
+      ? Math.round(report.results.reduce((sum, r) => sum + (r.response?.responseTime || 0), 0) / report.results.length)
+      : 0,
+  };
+}
+
+/**
+ * JUnit XML with one testsuite per request (per iteration) and one testcase per
+ * assertion. Requests that fail before their tests can run, such as network or
+ * script errors, are reported as a testsuite error.
+ */
+export function createJUnitReport(report: RunReport): string {
+  const summary = summarize(report);
+  const errors = report.results.filter(r => r.error || !r.response || r.response.status === 0).length;
+
+  const suites = report.results.map((result, index) => {
+    const classname = escapeXml(result.path.join('.'));
+    const failures = result.tests.filter(t => !t.passed).length;
+    const skipped = result.tests.filter(t => t.skipped).length;
+    const error = result.error || (!result.response || result.response.status === 0 ? 'Request could not be sent' : undefined);
+
+    const cases = result.tests.map(test => {
+      const open = `    <testcase name="${escapeXml(test.name)}" classname="${classname}" time="0">`;
+      if (test.skipped) return `${open}\n      <skipped/>\n    </testcase>`;
+      if (!test.passed) {
+        return `${open}\n      <failure type="AssertionError" message="${escapeXml(test.error || 'Test failed')}"/>\n    </testcase>`;
+      }
+      return `    <testcase name="${escapeXml(test.name)}" classname="${classname}" time="0"/>`;
+    });
+    if (error) {
+      cases.push(
+        `    <testcase name="${escapeXml(result.name)}" classname="${classname}" time="${seconds(result.response?.responseTime)}">\n` +
+        `      <error message="${escapeXml(error)}"/>\n    </testcase>`
+      );
+    }
+
+    return [
+      `  <testsuite id="${index}" name="${escapeXml(requestLabel(result))}" tests="${cases.length}" ` +
+        `failures="${failures}" errors="${error ? 1 : 0}" skipped="${skipped}" time="${seconds(result.response?.responseTime)}">`,
+      '    <properties>',
+      `      <property name="iteration" value="${result.iteration + 1}"/>`,
+      `      <property name="method" value="${escapeXml(result.method)}"/>`,
+      `      <property name="url" value="${escapeXml(result.url)}"/>`,
+      ...(result.response ? [`      <property name="status" value="${result.response.status}"/>`] : []),
+      '    </properties>',
+      ...cases,
+      '  </testsuite>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(report.name)}" tests="${summary.tests + errors}" failures="${summary.failedTests}" ` +
+      `errors="${errors}" time="${seconds(report.duration)}" timestamp="${escapeXml(report.startedAt)}">`,
+    ...suites,
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * A self-contained HTML page (inline styles, no scripts) summarising the run,
+ * with each request's timing, status and failed assertions.
+ */
+export function createHtmlReport(report: RunReport): string {
+  const summary = summarize(report);
+
+  const rows = report.results.map(result => {
+    const failed = isFailedResult(result);
+    const details = [
+      ...(result.error ? [`<div class="error">${escapeHtml(result.error)}</div>`] : []),
+      ...(result.nextRequest !== undefined
+        ? [`<div class="jump">&rarr; ${result.nextRequest === null ? 'End of iteration' : `Next: ${escapeHtml(result.nextRequest)}`}</div>`]
+        : []),
+      ...result.tests.map(test => {
+        const state = test.skipped ? 'skipped' : test.passed ? 'pass' : 'fail';
+        const error = test.error ? `: ${escapeHtml(test.error)}` : '';
+        return `<div class="test ${state}">${state.toUpperCase()} ${escapeHtml(test.name)}${error}</div>`;
+      }),
+    ].join('');
+
+    return `<tr class="${failed ? 'failed' : ''}">
+  <td>${result.iteration + 1}</td>
+  <td><strong>${escapeHtml(result.method)}</strong> ${escapeHtml(requestLabel(result))}<div class="url">${escapeHtml(result.url)}</div>${details}</td>
+  <td>${result.response ? `${result.response.status} ${escapeHtml(result.response.statusText)}` : '&mdash;'}</td>
+  <td>${result.response ? `${result.response.responseTime} ms` : '&mdash;'}</td>
+  <td>${result.response ? `${result.response.size} B` : '&mdash;'}</td>
+</tr>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(report.name)} - Run report</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2937; }
+  h1 { margin-bottom: 0.25rem; }
+  .meta { color: #6b7280; margin-bottom: 1.5rem; }
+  .summary { display: flex; gap: 2rem; margin-bottom: 1.5rem; }
+  .summary div { font-size: 0.875rem; color: #6b7280; }
+  .summary strong { display: block; font-size: 1.5rem; color: #1f2937; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.875rem; }
+  th, td { text-align: left; padding: 0.5rem; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+  tr.failed { background: #fef2f2; }
+  .url { font-family: monospace; color: #6b7280; word-break: break-all; }
+  .test { font-family: monospace; }
+  .pass { color: #15803d; }
+  .fail, .error { color: #b91c1c; }
+  .skipped { color: #6b7280; }
+  .jump { color: #2563eb; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(report.name)}</h1>
+<div class="meta">Started ${escapeHtml(report.startedAt)}${report.environment ? ` with environment ${escapeHtml(report.environment)}` : ''}, took ${report.duration} ms</div>
+<div class="summary">
+  <div><strong>${summary.requests}</strong>Requests</div>
+  <div><strong>${summary.failedRequests}</strong>Failed requests</div>
+  <div><strong>${summary.tests - summary.failedTests - summary.skippedTests}/${summary.tests - summary.skippedTests}</strong>Tests passed</div>
+  <div><strong>${summary.averageTime} ms</strong>Average response time</div>
+</div>
+<table>
+<thead><tr><th>Iteration</th><th>Request</th><th>Status</th><th>Time</th><th>Size</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+</body>
+</html>
+`;
+}
+
+// Every request/response pair of the run, as plain data
+export function createJsonReport(report: RunReport): string {
+  return JSON.stringify({
+    ...report,
+    summary: summarize(report),
+    results: report.results.map(({ iteration, name, path, request, response, tests, logs, error, nextRequest }) => ({
+      iteration: iteration + 1,
+      name,
+      path,
+      request,
+      response,
+      tests,
+      logs,
+      ...(error && { error }),
+      ...(nextRequest !== undefined && { nextRequest }),
+    })),
+  }, null, 2);
+}
+
+export const REPORT_FORMATS: Record<ReportFormat, { label: string; extension: string; mimeType: string; create: (report: RunReport) => string }> = {
+  junit: { label: 'JUnit XML', extension: 'xml', mimeType: 'application/xml', create: createJUnitReport },
+  html: { label: 'HTML', extension: 'html', mimeType: 'text/html', create: createHtmlReport },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json', create: createJsonReport },
+};
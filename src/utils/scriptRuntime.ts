@@ -0,0 +1,51 @@
+import { ScriptLog } from '@/types/postman';
+import { DEFAULT_SCRIPT_TIMEOUT, ScriptExecutionInput, ScriptExecutionResult } from '@/utils/scriptSandbox';
+
+export interface ScriptRunOptions {
+  timeout?: number;
+}
+
+type WorkerMessage =
+  | { type: 'log'; log: ScriptLog }
+  | { type: 'result'; result: ScriptExecutionResult };
+
+/**
+ * Runs a script in its own Web Worker. The worker is terminated when the script
+ * finishes or exceeds the timeout, so a runaway script can't block the UI.
+ */
+export function runScript(
+  input: ScriptExecutionInput,
+  { timeout = DEFAULT_SCRIPT_TIMEOUT }: ScriptRunOptions = {}
+): Promise<ScriptExecutionResult> {
+  return new Promise(resolve => {
+    const worker = new Worker(new URL('../workers/scriptWorker.ts', import.meta.url), { type: 'module' });
+    const logs: ScriptLog[] = [];
+
+    // Keep whatever the script logged before it failed to finish
+    const fail = (error: string) => {
+      clearTimeout(timer);
+      worker.terminate();
+      resolve({ request: input.request, scopes: input.scopes, logs, tests: [], error });
+    };
+
+    const timer = setTimeout(() => fail(`Script timed out after ${timeout}ms`), timeout);
+
+    worker.onmessage = (event: MessageEvent<WorkerMessage>) => {
+      if (event.data.type === 'log') {
+        logs.push(event.data.log);
+        return;
+      }
+      clearTimeout(timer);
+      worker.terminate();
+      resolve(event.data.result);
+    };
+
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      fail(event.message || 'Script worker failed');
+    };
+
+    // Round-trip through JSON so only plain data crosses into the worker
+    worker.postMessage(JSON.parse(JSON.stringify(input)));
+  });
+}
@@ -0,0 +1,417 @@
+import { expect } from 'chai';
+import { PostmanHeader, PostmanRequest, RequestResponse, ScriptLog, TestResult } from '@/types/postman';
+import { VariableScopeName, VariableScopes, flattenVariableScopes, hasVariable, lookupVariable, resolveVariables } from '@/utils/variableUtils';
+
+export type ScriptListen = 'prerequest' | 'test';
+
+export const DEFAULT_SCRIPT_TIMEOUT = 5000;
+
+export interface ScriptExecutionInput {
+  listen: ScriptListen;
+  script: string;
+  request: PostmanRequest;
+  response?: RequestResponse;
+  scopes: VariableScopes;
+  info?: {
+    requestName?: string;
+    iteration?: number;
+    iterationCount?: number;
+  };
+}
+
+export interface ScriptExecutionResult {
+  request: PostmanRequest;
+  scopes: VariableScopes;
+  logs: ScriptLog[];
+  tests: TestResult[];
+  // Set when the script called setNextRequest; null ends the runner iteration
+  nextRequest?: string | null;
+  error?: string;
+}
+
+// Callbacks into whatever is hosting the sandbox (main thread, worker or Node)
+export interface ScriptHost {
+  onLog?: (log: ScriptLog) => void;
+  sendRequest?: (request: PostmanRequest, scopes: VariableScopes) => Promise<RequestResponse>;
+}
+
+// The request shapes pm.sendRequest accepts: a URL or a Postman SDK style request definition
+type SendRequestInput = string | {
+  url: string;
+  method?: string;
+  header?: PostmanHeader[] | Record<string, string>;
+  body?: PostmanRequest['body'];
+  auth?: PostmanRequest['auth'];
+};
+
+type SendRequestCallback = (error: Error | null, response?: ReturnType<typeof createResponse>) => void;
+
+// Scripts may use top-level await, so they are compiled as async function bodies
+const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor as new (
+  ...args: string[]
+) => (...args: unknown[]) => Promise<void>;
+
+const stringifyValue = (value: unknown): string => {
+  if (typeof value === 'string') return value;
+  if (value === undefined) return '';
+  if (typeof value === 'object' && value !== null) {
+    try {
+      return JSON.stringify(value);
+    } catch {
+      return String(value);
+    }
+  }
+  return String(value);
+};
+
+function createVariableScope(scopes: VariableScopes, scope: VariableScopeName) {
+  const variables = (scopes[scope] = { ...scopes[scope] });
+  return {
+    get: (key: string) => (hasVariable(variables, key) ? variables[key] : undefined),
+    set: (key: string, value: unknown) => {
+      variables[key] = stringifyValue(value);
+    },
+    unset: (key: string) => {
+      delete variables[key];
+    },
+    has: (key: string) => hasVariable(variables, key),
+    clear: () => {
+      Object.keys(variables).forEach(key => delete variables[key]);
+    },
+    toObject: () => ({ ...variables }),
+    replaceIn: (text: string) => resolveVariables(text, variables),
+  };
+}
+
+function createHeaderList(request: PostmanRequest) {
+  request.header = request.header ? [...request.header] : [];
+  const find = (key: string) => request.header.find(h => h.key.toLowerCase() === key.toLowerCase());
+
+  return {
+    add: (header: { key: string; value: string }) => {
+      request.header.push({ key: header.key, value: stringifyValue(header.value), type: 'text' });
+    },
+    upsert: (header: { key: string; value: string }) => {
+      const existing = find(header.key);
+      if (existing) {
+        existing.value = stringifyValue(header.value);
+        existing.disabled = false;
+      } else {
+        request.header.push({ key: header.key, value: stringifyValue(header.value), type: 'text' });
+      }
+    },
+    remove: (key: string) => {
+      request.header = request.header.filter(h => h.key.toLowerCase() !== key.toLowerCase());
+    },
+    get: (key: string) => {
+      const header = find(key);
+      return header && !header.disabled ? header.value : undefined;
+    },
+    has: (key: string) => !!find(key),
+    each: (callback: (header: PostmanHeader) => void) => request.header.forEach(callback),
+    toObject: () => Object.fromEntries(request.header.filter(h => !h.disabled).map(h => [h.key, h.value])),
+  };
+}
+
+function createUrl(request: PostmanRequest) {
+  const getRaw = () => (typeof request.url === 'string' ? request.url : request.url?.raw || '');
+  const setRaw = (raw: string) => {
+    request.url = typeof request.url === 'string' || !request.url ? raw : { ...request.url, raw };
+  };
+  const splitQuery = () => {
+    const raw = getRaw();
+    const index = raw.indexOf('?');
+    return index === -1 ? [raw, ''] : [raw.slice(0, index), raw.slice(index + 1)];
+  };
+
+  return {
+    toString: getRaw,
+    update: (url: string) => setRaw(stringifyValue(url)),
+    getHost: () => getRaw().replace(/^[a-z]+:\/\//i, '').split(/[/?#]/)[0],
+    getPath: () => '/' + (getRaw().replace(/^[a-z]+:\/\/[^/]*/i, '').split(/[?#]/)[0].replace(/^\//, '')),
+    getQueryString: () => splitQuery()[1],
+    addQueryParams: (params: string | Array<{ key: string; value: string }>) => {
+      const [base, query] = splitQuery();
+      const added = typeof params === 'string'
+        ? params
+        : params.map(p => `${p.key}=${p.value ?? ''}`).join('&');
+      setRaw(`${base}?${[query, added].filter(Boolean).join('&')}`);
+    },
+    removeQueryParams: (keys: string | string[]) => {
+      const names = Array.isArray(keys) ? keys : [keys];
+      const [base, query] = splitQuery();
+      const kept = query.split('&').filter(pair => pair && !names.includes(pair.split('=')[0]));
+      setRaw(kept.length ? `${base}?${kept.join('&')}` : base);
+    },
+  };
+}
+
+function createRequest(request: PostmanRequest) {
+  const url = createUrl(request);
+  const headers = createHeaderList(request);
+
+  return {
+    get url() {
+      return url;
+    },
+    set url(value: unknown) {
+      url.update(stringifyValue(value));
+    },
+    get method() {
+      return request.method;
+    },
+    set method(value: string) {
+      request.method = value.toUpperCase() as PostmanRequest['method'];
+    },
+    headers,
+    // Reading a request without a body leaves it without one; the first write creates it
+    get body() {
+      const writable = () => {
+        if (!request.body) {
+          request.body = { mode: 'raw', raw: '' };
+        }
+        return request.body;
+      };
+      return {
+        get mode() {
+          return request.body?.mode;
+        },
+        get raw() {
+          return request.body?.raw;
+        },
+        get graphql() {
+          return request.body?.graphql;
+        },
+        set raw(value: string) {
+          writable().raw = stringifyValue(value);
+        },
+        update: (value: unknown) => {
+          const body = writable();
+          body.mode = 'raw';
+          body.raw = stringifyValue(value);
+        },
+        toString: () => request.body?.raw || '',
+      };
+    },
+  };
+}
+
+function createResponse(response: RequestResponse) {
+  const text = () => (typeof response.data === 'string' ? response.data : JSON.stringify(response.data));
+  const json = () => (typeof response.data === 'string' ? JSON.parse(response.data) : response.data);
+  const findHeader = (key: string) =>
+    Object.entries(response.headers).find(([name]) => name.toLowerCase() === key.toLowerCase())?.[1];
+
+  const assert = (condition: boolean, message: string) => {
+    if (!condition) throw new Error(message);
+  };
+  const inRange = (min: number, max: number) => response.status >= min && response.status < max;
+
+  return {
+    code: response.status,
+    status: response.statusText,
+    responseTime: response.responseTime,
+    responseSize: response.size,
+    headers: {
+      get: findHeader,
+      has: (key: string) => findHeader(key) !== undefined,
+      toObject: () => ({ ...response.headers }),
+    },
+    text,
+    json,
+    to: {
+      have: {
+        status: (expected: number | string) => assert(
+          typeof expected === 'number' ? response.status === expected : response.statusText === expected,
+          `expected response to have status ${typeof expected === 'number' ? 'code' : 'reason'} ${expected} but got ${typeof expected === 'number' ? response.status : response.statusText}`
+        ),
+        header: (key: string, value?: string) => {
+          assert(findHeader(key) !== undefined, `expected response to have header with key '${key}'`);
+          if (value !== undefined) {
+            assert(findHeader(key) === value, `expected response header '${key}' to be '${value}' but got '${findHeader(key)}'`);
+          }
+        },
+        body: (expected?: string) => {
+          assert(text().length > 0, 'expected response to have content in body');
+          if (expected !== undefined) {
+            assert(text() === expected, `expected response body to equal '${expected}'`);
+          }
+        },
+        jsonBody: (path?: string) => {
+          const body = json();
+          if (path) {
+            const value = path.split('.').reduce((current, key) => current?.[key], body);
+            assert(value !== undefined, `expected response body json to have path '${path}'`);
+          }
+        },
+      },
+      be: {
+        get ok() { return assert(response.status === 200, `expected response code to be 200 but found ${response.status}`); },
+        get success() { return assert(inRange(200, 300), `expected response code to be 2XX but found ${response.status}`); },
+        get redirection() { return assert(inRange(300, 400), `expected response code to be 3XX but found ${response.status}`); },
+        get clientError() { return assert(inRange(400, 500), `expected response code to be 4XX but found ${response.status}`); },
+        get serverError() { return assert(inRange(500, 600), `expected response code to be 5XX but found ${response.status}`); },
+        get error() { return assert(inRange(400, 600), `expected response code to be 4XX or 5XX but found ${response.status}`); },
+        get json() {
+          let parsed = true;
+          try {
+            json();
+          } catch {
+            parsed = false;
+          }
+          return assert(parsed, 'expected response body to be a valid json');
+        },
+      },
+    },
+  };
+}
+
+function toPostmanRequest(input: SendRequestInput): PostmanRequest {
+  if (typeof input === 'string') {
+    return { method: 'GET', url: input, header: [] };
+  }
+  const header = Array.isArray(input.header)
+    ? input.header
+    : Object.entries(input.header || {}).map(([key, value]) => ({ key, value: stringifyValue(value) }));
+  return {
+    method: (input.method || 'GET').toUpperCase() as PostmanRequest['method'],
+    url: input.url,
+    header,
+    ...(input.body && { body: input.body }),
+    ...(input.auth && { auth: input.auth }),
+  };
+}
+
+function createConsole(logs: ScriptLog[], host: ScriptHost) {
+  const write = (level: ScriptLog['level']) => (...args: unknown[]) => {
+    const log = { level, message: args.map(arg => stringifyValue(arg)).join(' ') };
+    logs.push(log);
+    host.onLog?.(log);
+  };
+  return {
+    log: write('log'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  };
+}
+
+/**
+ * Runs a Postman script against a copy of the request and variable scopes and
+ * returns the mutated copies. Input and output are plain data so the same code
+ * can run on the main thread, in a worker or in Node.
+ */
+export async function executeScript(input: ScriptExecutionInput, host: ScriptHost = {}): Promise<ScriptExecutionResult> {
+  const request: PostmanRequest = JSON.parse(JSON.stringify(input.request));
+  const scopes: VariableScopes = { ...input.scopes };
+  const logs: ScriptLog[] = [];
+  const tests: TestResult[] = [];
+  const pendingTests: Promise<void>[] = [];
+  const pendingRequests: Promise<unknown>[] = [];
+
+  const test = (name: string, fn: () => unknown) => {
+    // Reserve the slot up front so async tests are reported in declaration order
+    const index = tests.push({ name, passed: true }) - 1;
+    const record = (error?: unknown) => {
+      tests[index] = error === undefined
+        ? { name, passed: true }
+        : { name, passed: false, error: error instanceof Error ? error.message : String(error) };
+    };
+    try {
+      const result = fn();
+      if (result instanceof Promise) {
+        pendingTests.push(result.then(() => record(), error => record(error ?? 'Test failed')));
+      } else {
+        record();
+      }
+    } catch (error) {
+      record(error ?? 'Test failed');
+    }
+  };
+  test.skip = (name: string) => tests.push({ name, passed: true, skipped: true });
+
+  // Supports both the callback form and `await pm.sendRequest(...)`; the script only
+  // finishes once every request it started has completed and its callback has run
+  const sendRequest = (input: SendRequestInput, callback?: SendRequestCallback) => {
+    const pending = (async () => {
+      if (!host.sendRequest) {
+        throw new Error('pm.sendRequest is not available in this environment');
+      }
+      const result = await host.sendRequest(toPostmanRequest(input), scopes);
+      if (result.status === 0) {
+        throw new Error(result.data?.error || result.statusText);
+      }
+      return createResponse(result);
+    })();
+
+    if (!callback) {
+      // Rejections surface through the script's own await
+      pendingRequests.push(pending.catch(() => undefined));
+      return pending;
+    }
+    // Errors thrown inside the callback fail the script
+    pendingRequests.push(pending.then(
+      response => callback(null, response),
+      error => callback(error instanceof Error ? error : new Error(String(error)))
+    ));
+  };
+
+  const iterationData = createVariableScope(scopes, 'data');
+
+  let nextRequest: string | null | undefined;
+  const setNextRequest = (name: string | null) => {
+    nextRequest = name === null ? null : stringifyValue(name);
+  };
+
+  const pm = {
+    info: {
+      eventName: input.listen,
+      requestName: input.info?.requestName || '',
+      iteration: input.info?.iteration ?? 0,
+      iterationCount: input.info?.iterationCount ?? 1,
+    },
+    environment: createVariableScope(scopes, 'environment'),
+    globals: createVariableScope(scopes, 'global'),
+    collectionVariables: createVariableScope(scopes, 'collection'),
+    // The current runner data row; read-only like in Postman
+    iterationData: {
+      get: iterationData.get,
+      has: iterationData.has,
+      toObject: iterationData.toObject,
+      replaceIn: iterationData.replaceIn,
+    },
+    variables: {
+      ...createVariableScope(scopes, 'local'),
+      get: (key: string) => lookupVariable(key, scopes)?.value,
+      has: (key: string) => !!lookupVariable(key, scopes),
+      toObject: () => flattenVariableScopes(scopes),
+      replaceIn: (text: string) => resolveVariables(text, flattenVariableScopes(scopes)),
+    },
+    request: createRequest(request),
+    ...(input.response && { response: createResponse(input.response) }),
+    test,
+    expect,
+    sendRequest,
+    execution: { setNextRequest },
+  };
+  // The legacy global, still common in older collections
+  const postman = { setNextRequest };
+
+  try {
+    const run = new AsyncFunction('pm', 'postman', 'console', input.script);
+    await run(pm, postman, createConsole(logs, host));
+    await Promise.all(pendingRequests);
+    await Promise.all(pendingTests);
+    return { request, scopes, logs, tests, ...(nextRequest !== undefined && { nextRequest }) };
+  } catch (error) {
+    await Promise.all(pendingTests);
+    return {
+      request,
+      scopes,
+      logs,
+      tests,
+      ...(nextRequest !== undefined && { nextRequest }),
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
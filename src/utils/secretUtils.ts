@@ -0,0 +1,255 @@
+import { PostmanCollection, PostmanEnvironment, PostmanItem, PostmanVariable } from '@/types/postman';
+
+const ENVELOPE_PREFIX = 'enc:v1:';
+const CHECK_PLAINTEXT = 'postman-clone-secrets';
+const PBKDF2_ITERATIONS = 250000;
+
+export interface SecretVault {
+  encrypt: (value: string) => Promise<string>;
+  decrypt: (value: string) => Promise<string>;
+}
+
+const toBase64 = (bytes: ArrayBuffer | Uint8Array): string =>
+  btoa(String.fromCharCode(...new Uint8Array(bytes)));
+
+const fromBase64 = (value: string): Uint8Array =>
+  Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+export function isEncryptedValue(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(ENVELOPE_PREFIX);
+}
+
+// True when a value, e.g. a resolved request, still holds an encrypted secret anywhere inside it
+export function containsEncryptedValue(value: unknown): boolean {
+  return JSON.stringify(value ?? null).includes(ENVELOPE_PREFIX);
+}
+
+export function isSecretVariable(variable: PostmanVariable): boolean {
+  return variable.type === 'secret';
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+// Envelope layout: enc:v1:<salt>:<iv>:<ciphertext>, each part base64 encoded
+function parseEnvelope(value: string): { salt: string; iv: Uint8Array; data: Uint8Array } {
+  const [salt, iv, data] = value.slice(ENVELOPE_PREFIX.length).split(':');
+  if (!salt || !iv || !data) {
+    throw new Error('Malformed encrypted value');
+  }
+  return { salt, iv: fromBase64(iv), data: fromBase64(data) };
+}
+
+/**
+ * Opens a vault for the given passphrase. When a passphrase check created by
+ * createPassphraseCheck is supplied, the passphrase is verified against it.
+ */
+export async function openSecretVault(passphrase: string, check?: string | null): Promise<SecretVault> {
+  const keys = new Map<string, Promise<CryptoKey>>();
+  const getKey = (salt: string) => {
+    if (!keys.has(salt)) {
+      keys.set(salt, deriveKey(passphrase, fromBase64(salt)));
+    }
+    return keys.get(salt);
+  };
+
+  // Reuse the workspace salt so existing values don't need another key derivation
+  const salt = check ? parseEnvelope(check).salt : toBase64(crypto.getRandomValues(new Uint8Array(16)));
+
+  const vault: SecretVault = {
+    encrypt: async (value: string) => {
+      const iv = crypto.getRandomValues(new Uint8Array(12));
+      const data = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv },
+        await getKey(salt),
+        new TextEncoder().encode(value)
+      );
+      return `${ENVELOPE_PREFIX}${salt}:${toBase64(iv)}:${toBase64(data)}`;
+    },
+    decrypt: async (value: string) => {
+      const envelope = parseEnvelope(value);
+      const data = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: envelope.iv },
+        await getKey(envelope.salt),
+        envelope.data
+      );
+      return new TextDecoder().decode(data);
+    },
+  };
+
+  if (check) {
+    const verified = await vault.decrypt(check).then(value => value === CHECK_PLAINTEXT, () => false);
+    if (!verified) {
+      throw new Error('Incorrect passphrase');
+    }
+  }
+
+  return vault;
+}
+
+export function createPassphraseCheck(vault: SecretVault): Promise<string> {
+  return vault.encrypt(CHECK_PLAINTEXT);
+}
+
+export class SecretsLockedError extends Error {
+  constructor() {
+    super('Secret values cannot be saved until the secrets passphrase is entered');
+    this.name = 'SecretsLockedError';
+  }
+}
+
+// `path` names the folders (and request) the values belong to; empty for the collection's own
+type VariableTransform = (values: PostmanVariable[] | undefined, path: string[]) => Promise<PostmanVariable[] | undefined>;
+
+// Secret values are encrypted with the vault so they never reach storage in plain text;
+// without a vault a SecretsLockedError is thrown rather than losing the value. Values
+// that are already encrypted are kept as-is.
+export function sealVariables(values: PostmanVariable[] | undefined, vault: SecretVault | null) {
+  if (!values) return Promise.resolve(values);
+  return Promise.all(values.map(async v => {
+    if (!isSecretVariable(v) || isEncryptedValue(v.value) || !v.value) return v;
+    if (!vault) throw new SecretsLockedError();
+    return { ...v, value: await vault.encrypt(v.value) };
+  }));
+}
+
+// Values that fail to decrypt stay encrypted rather than being lost
+export function unsealVariables(values: PostmanVariable[] | undefined, vault: SecretVault) {
+  if (!values) return Promise.resolve(values);
+  return Promise.all(values.map(async v => {
+    if (!isEncryptedValue(v.value)) return v;
+    try {
+      return { ...v, value: await vault.decrypt(v.value) };
+    } catch {
+      return v;
+    }
+  }));
+}
+
+export function redactSecrets(values?: PostmanVariable[]): PostmanVariable[] | undefined {
+  return values?.map(v => (isSecretVariable(v) ? { ...v, value: '' } : v));
+}
+
+// A secret that can't be encrypted yet is saved as the ciphertext saved for it before, or empty
+function keepSavedSecrets(values: PostmanVariable[] | undefined, saved: PostmanVariable[] | undefined) {
+  return values?.map(v => {
+    if (!isSecretVariable(v) || isEncryptedValue(v.value) || !v.value) return v;
+    const previous = saved?.find(p => p.key === v.key && isEncryptedValue(p.value));
+    return { ...v, value: previous ? previous.value : '' };
+  });
+}
+
+async function transformItems(items: PostmanItem[], transform: VariableTransform, path: string[]): Promise<PostmanItem[]> {
+  return Promise.all(items.map(async item => {
+    const itemPath = [...path, item.name];
+    return {
+      ...item,
+      ...(item.item && { item: await transformItems(item.item, transform, itemPath) }),
+      ...(item.variable && { variable: await transform(item.variable, itemPath) }),
+    };
+  }));
+}
+
+async function transformCollection(collection: PostmanCollection, transform: VariableTransform): Promise<PostmanCollection> {
+  return {
+    ...collection,
+    item: await transformItems(collection.item, transform, []),
+    ...(collection.variable && { variable: await transform(collection.variable, []) }),
+  };
+}
+
+function variablesAt(collection: PostmanCollection | undefined, path: string[]): PostmanVariable[] | undefined {
+  if (!collection) return undefined;
+  let item: PostmanItem | undefined;
+  let items = collection.item;
+  for (const name of path) {
+    item = items?.find(i => i.name === name);
+    items = item?.item;
+  }
+  return path.length ? item?.variable : collection.variable;
+}
+
+export function sealCollectionSecrets(collection: PostmanCollection, vault: SecretVault | null) {
+  return transformCollection(collection, values => sealVariables(values, vault));
+}
+
+/**
+ * Seals a collection for saving even while the vault is locked: secrets that can't be
+ * encrypted keep the ciphertext in `saved`, the last saved copy, or are left empty, so
+ * the rest of the collection still saves. `locked` tells the caller that happened.
+ */
+export async function sealCollectionForSave(
+  collection: PostmanCollection,
+  vault: SecretVault | null,
+  saved?: PostmanCollection
+): Promise<{ sealed: PostmanCollection; locked: boolean }> {
+  try {
+    return { sealed: await sealCollectionSecrets(collection, vault), locked: false };
+  } catch (error) {
+    if (!(error instanceof SecretsLockedError)) throw error;
+    const sealed = await transformCollection(collection, async (values, path) => keepSavedSecrets(values, variablesAt(saved, path)));
+    return { sealed, locked: true };
+  }
+}
+
+export function unsealCollectionSecrets(collection: PostmanCollection, vault: SecretVault) {
+  return transformCollection(collection, values => unsealVariables(values, vault));
+}
+
+export function redactCollectionSecrets(collection: PostmanCollection) {
+  return transformCollection(collection, async values => redactSecrets(values));
+}
+
+export async function sealEnvironmentSecrets(environment: PostmanEnvironment, vault: SecretVault | null): Promise<PostmanEnvironment> {
+  return { ...environment, values: await sealVariables(environment.values, vault) };
+}
+
+// The environment counterpart of sealCollectionForSave
+export async function sealEnvironmentForSave(
+  environment: PostmanEnvironment,
+  vault: SecretVault | null,
+  saved?: PostmanEnvironment
+): Promise<{ sealed: PostmanEnvironment; locked: boolean }> {
+  try {
+    return { sealed: await sealEnvironmentSecrets(environment, vault), locked: false };
+  } catch (error) {
+    if (!(error instanceof SecretsLockedError)) throw error;
+    return { sealed: { ...environment, values: keepSavedSecrets(environment.values, saved?.values) }, locked: true };
+  }
+}
+
+export async function unsealEnvironmentSecrets(environment: PostmanEnvironment, vault: SecretVault): Promise<PostmanEnvironment> {
+  return { ...environment, values: await unsealVariables(environment.values, vault) };
+}
+
+export function collectSecretNames(...lists: Array<PostmanVariable[] | undefined>): Set<string> {
+  const names = new Set<string>();
+  lists.forEach(values => values?.forEach(v => isSecretVariable(v) && names.add(v.key)));
+  return names;
+}
+
+function itemsHaveSecrets(items: PostmanItem[]): boolean {
+  return items.some(item => item.variable?.some(isSecretVariable) || (item.item && itemsHaveSecrets(item.item)));
+}
+
+export function collectionHasSecrets(collection: PostmanCollection): boolean {
+  return !!collection.variable?.some(isSecretVariable) || itemsHaveSecrets(collection.item);
+}
+
+export function environmentHasSecrets(environment: PostmanEnvironment): boolean {
+  return environment.values.some(isSecretVariable);
+}
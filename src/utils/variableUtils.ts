@@ -0,0 +1,226 @@
+import { PostmanAuth, PostmanCollection, PostmanEnvironment, PostmanRequest, PostmanUrl, PostmanVariable } from '@/types/postman';
+import { generateDynamicVariable } from '@/utils/dynamicVariables';
+
+const VARIABLE_PATTERN = /\{\{([^{}]+?)\}\}/g;
+const MAX_RESOLVE_DEPTH = 10;
+
+export type VariableScopeName = 'local' | 'data' | 'environment' | 'folder' | 'collection' | 'global';
+
+export type VariableScopes = Partial<Record<VariableScopeName, Record<string, string>>>;
+
+// Highest precedence first, matching Postman; folder variables refine the collection's
+export const VARIABLE_SCOPE_PRECEDENCE: VariableScopeName[] = ['local', 'data', 'environment', 'folder', 'collection', 'global'];
+
+// Variable maps are plain objects, so `in` would also find names like "toString" on their prototype
+export const hasVariable = (variables: Record<string, string>, name: string) =>
+  Object.prototype.hasOwnProperty.call(variables, name);
+
+export function toVariableMap(values?: PostmanVariable[]): Record<string, string> {
+  const variables: Record<string, string> = {};
+  values?.forEach(v => {
+    if (v.enabled !== false && !v.disabled && v.key) {
+      variables[v.key] = v.value == null ? '' : String(v.value);
+    }
+  });
+  return variables;
+}
+
+export function getEnvironmentVariables(environment?: PostmanEnvironment | null): Record<string, string> {
+  return toVariableMap(environment?.values);
+}
+
+export function getCollectionVariables(collection?: PostmanCollection | null): Record<string, string> {
+  return toVariableMap(collection?.variable);
+}
+
+// The variables of each folder on the way to the item, then the request's own; the innermost wins.
+// They are a scope of their own so scripts writing collection variables never copy them into the collection
+export function getFolderVariables(collection?: PostmanCollection | null, path: string[] = []): Record<string, string> {
+  if (!collection) return {};
+
+  const variables: Record<string, string> = {};
+  let current = collection.item;
+  for (const segment of path) {
+    const item = current?.find(i => i.name === segment);
+    if (!item) break;
+    Object.assign(variables, toVariableMap(item.variable));
+    current = item.item;
+  }
+
+  return variables;
+}
+
+export function buildVariableScopes({
+  collection,
+  path,
+  environment,
+  globals,
+}: {
+  collection?: PostmanCollection | null;
+  path?: string[];
+  environment?: PostmanEnvironment | null;
+  globals?: PostmanEnvironment | null;
+}): VariableScopes {
+  return {
+    environment: getEnvironmentVariables(environment),
+    folder: getFolderVariables(collection, path),
+    collection: getCollectionVariables(collection),
+    global: getEnvironmentVariables(globals),
+  };
+}
+
+export function lookupVariable(
+  name: string,
+  scopes: VariableScopes
+): { value: string; scope: VariableScopeName } | null {
+  for (const scope of VARIABLE_SCOPE_PRECEDENCE) {
+    const variables = scopes[scope];
+    if (variables && hasVariable(variables, name)) {
+      return { value: variables[name], scope };
+    }
+  }
+  return null;
+}
+
+export function flattenVariableScopes(scopes: VariableScopes): Record<string, string> {
+  const variables: Record<string, string> = {};
+  // Apply lowest precedence first so higher scopes overwrite it
+  [...VARIABLE_SCOPE_PRECEDENCE].reverse().forEach(scope => {
+    Object.assign(variables, scopes[scope]);
+  });
+  return variables;
+}
+
+// Writes the difference between two variable maps (e.g. before and after a script ran)
+// back onto a stored variable list
+export function applyVariableChanges(
+  values: PostmanVariable[] = [],
+  before: Record<string, string> = {},
+  after: Record<string, string> = {}
+): PostmanVariable[] {
+  let updated = values.filter(v => !hasVariable(before, v.key) || hasVariable(after, v.key));
+  Object.entries(after).forEach(([key, value]) => {
+    if (before[key] === value) return;
+    if (updated.some(v => v.key === key)) {
+      updated = updated.map(v => (v.key === key ? { ...v, value } : v));
+    } else {
+      updated = [...updated, { key, value, type: 'default', enabled: true }];
+    }
+  });
+  return updated;
+}
+
+export interface TextSegment {
+  text: string;
+  variable?: string;
+}
+
+// Splits text into plain runs and {{variable}} references, for highlighting
+export function tokenizeVariables(text: string): TextSegment[] {
+  const segments: TextSegment[] = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(VARIABLE_PATTERN)) {
+    if (match.index > lastIndex) {
+      segments.push({ text: text.slice(lastIndex, match.index) });
+    }
+    segments.push({ text: match[0], variable: match[1].trim() });
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < text.length) {
+    segments.push({ text: text.slice(lastIndex) });
+  }
+  return segments;
+}
+
+export function resolveVariables(text: string, variables: Record<string, string>): string {
+  if (!text) return text;
+
+  let result = text;
+  // Values may themselves reference other variables, so keep substituting until stable
+  for (let depth = 0; depth < MAX_RESOLVE_DEPTH; depth++) {
+    const next = result.replace(VARIABLE_PATTERN, (match, name: string) => {
+      const key = name.trim();
+      if (hasVariable(variables, key)) return variables[key];
+      return generateDynamicVariable(key) ?? match;
+    });
+    if (next === result) break;
+    result = next;
+  }
+
+  return result;
+}
+
+function resolveAuth(auth: PostmanAuth, variables: Record<string, string>): PostmanAuth {
+  const resolved: PostmanAuth = { ...auth };
+  (['bearer', 'oauth2', 'basic', 'apikey'] as const).forEach(type => {
+    if (auth[type]) {
+      resolved[type] = auth[type].map(item => ({
+        ...item,
+        value: typeof item.value === 'string' ? resolveVariables(item.value, variables) : item.value
+      }));
+    }
+  });
+  return resolved;
+}
+
+const PATH_VARIABLE_PATTERN = /\/:([^/?#]+)(?=[/?#]|$)/g;
+
+// The path variables for a URL's ":name" segments, keeping the values already set
+export function syncPathVariables(url: string, pathVariables: PostmanUrl['variable'] = []): PostmanVariable[] {
+  const names = new Set([...url.split(/[?#]/)[0].matchAll(PATH_VARIABLE_PATTERN)].map(match => match[1]));
+  return [...names].map(name => pathVariables.find(v => v.key === name) || { key: name, value: '' });
+}
+
+// Fills ":name" path segments from url.variable, as Postman does; unlisted ones are left alone
+export function fillPathVariables(url: string, pathVariables: PostmanUrl['variable'] = []): string {
+  const values = toVariableMap(pathVariables);
+  return url.replace(PATH_VARIABLE_PATTERN, (segment, name: string) => (hasVariable(values, name) ? `/${values[name]}` : segment));
+}
+
+export function resolveRequest(request: PostmanRequest, variables: Record<string, string>): PostmanRequest {
+  const url = typeof request.url === 'string'
+    ? resolveVariables(request.url, variables)
+    : request.url && {
+      ...request.url,
+      raw: fillPathVariables(
+        resolveVariables(request.url.raw, variables),
+        request.url.variable?.map(v => ({ ...v, value: resolveVariables(v.value, variables) }))
+      ),
+    };
+
+  return {
+    ...request,
+    url,
+    header: request.header?.map(h => ({
+      ...h,
+      key: resolveVariables(h.key, variables),
+      value: resolveVariables(h.value, variables)
+    })),
+    body: request.body && {
+      ...request.body,
+      raw: request.body.raw && resolveVariables(request.body.raw, variables),
+      ...(request.body.urlencoded && {
+        urlencoded: request.body.urlencoded.map(p => ({
+          ...p,
+          key: resolveVariables(p.key, variables),
+          value: resolveVariables(p.value, variables)
+        }))
+      }),
+      ...(request.body.formdata && {
+        formdata: request.body.formdata.map(p => ({
+          ...p,
+          key: resolveVariables(p.key, variables),
+          value: resolveVariables(p.value, variables)
+        }))
+      }),
+      ...(request.body.graphql && {
+        graphql: {
+          ...request.body.graphql,
+          query: resolveVariables(request.body.graphql.query, variables),
+          variables: request.body.graphql.variables && resolveVariables(request.body.graphql.variables, variables)
+        }
+      })
+    },
+    auth: request.auth && resolveAuth(request.auth, variables)
+  };
+}
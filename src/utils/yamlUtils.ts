@@ -0,0 +1,10 @@
+import { parse } from 'yaml';
+
+// Spec and export files come as either JSON or YAML; JSON is tried first for its clearer errors
+export function parseJsonOrYaml(text: string): unknown {
+  const trimmed = text.replace(/^\uFEFF/, '').trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    return JSON.parse(trimmed);
+  }
+  return parse(trimmed);
+}
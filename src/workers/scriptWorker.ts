@@ -0,0 +1,13 @@
+import { ScriptExecutionInput, executeScript } from '@/utils/scriptSandbox';
+import { executeRequest } from '@/utils/postmanUtils';
+
+// Dedicated worker that evaluates one user script. It has no access to the page's DOM or
+// localStorage; everything it needs arrives in the message and everything it changes is
+// posted back. pm.sendRequest goes through executeRequest here, like a normal send.
+self.onmessage = async (event: MessageEvent<ScriptExecutionInput>) => {
+  const result = await executeScript(event.data, {
+    onLog: log => self.postMessage({ type: 'log', log }),
+    sendRequest: executeRequest,
+  });
+  self.postMessage({ type: 'result', result });
+};
@@ -0,0 +1,24 @@
+import { defineConfig } from "vite";
+import path from "path";
+
+// Builds the headless runner (`api-forge`) as a Node script; run with `npm run build:cli`
+export default defineConfig({
+  // The web app's static assets have no place next to the CLI script
+  publicDir: false,
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+  build: {
+    ssr: "src/cli/index.ts",
+    outDir: "dist-cli",
+    target: "node18",
+    rollupOptions: {
+      output: {
+        entryFileNames: "api-forge.js",
+        banner: "#!/usr/bin/env node",
+      },
+    },
+  },
+});